@@ -0,0 +1,216 @@
+import { NextResponse } from 'next/server';
+import dayjs from 'dayjs';
+import { drawFromParams, getRoundSlot, type DrawOutcome } from '@/lib/draw';
+import { expandParams } from '@/lib/links';
+import { formatPairs, type Pair } from '@/lib/constraints';
+import { LATEST_ENGINE_VERSION } from '@/lib/engine';
+import {
+  HOLIDAY_CALENDAR_PARAM,
+  LATEST_HOLIDAY_CALENDAR,
+} from '@/lib/holidays';
+import {
+  formatPool,
+  FORMAT_PARAM,
+  LATEST_FORMAT_VERSION,
+} from '@/lib/encoding';
+
+// Error response with a machine-readable code and the message shown on the
+// result page
+const errorResponse = (code: string, message: string, status: number) =>
+  NextResponse.json({ error: { code, message } }, { status });
+
+// Draw a result link (plain or compact) and describe it as JSON
+const respond = async (params: URLSearchParams) => {
+  const searchParams = await expandParams(params);
+  if ('error' in searchParams) {
+    return errorResponse('invalid_params', searchParams.error, 400);
+  }
+
+  // Unlike links, requests are new: without a version they get the latest
+  // engine, name format and holidays (pass `v=1` to reproduce a link made
+  // before `v`)
+  if (!searchParams.has('v')) {
+    searchParams.set('v', String(LATEST_ENGINE_VERSION));
+  }
+  if (!searchParams.has(FORMAT_PARAM)) {
+    searchParams.set(FORMAT_PARAM, String(LATEST_FORMAT_VERSION));
+  }
+  if (!searchParams.has(HOLIDAY_CALENDAR_PARAM)) {
+    searchParams.set(HOLIDAY_CALENDAR_PARAM, String(LATEST_HOLIDAY_CALENDAR));
+  }
+
+  // An unexpected failure still gets a body clients can read
+  let outcome: DrawOutcome;
+  try {
+    outcome = drawFromParams(searchParams);
+  } catch (error) {
+    console.error('Error drawing teams:', error);
+    return errorResponse(
+      'draw_failed',
+      '팀을 뽑는 중 오류가 발생했습니다. 설정을 확인하고 다시 시도해 주세요.',
+      422,
+    );
+  }
+
+  if (outcome.error) {
+    return outcome.infeasible
+      ? errorResponse('infeasible', outcome.error, 422)
+      : errorResponse('invalid_params', outcome.error, 400);
+  }
+
+  if (!outcome.teams || !outcome.appearances) {
+    return errorResponse(
+      'sealed',
+      '공정성 증명 비밀값이 공개되지 않아 팀을 보여줄 수 없습니다.',
+      403,
+    );
+  }
+
+  const formatDate = (date: Date | null) =>
+    date ? dayjs(date).format('YYYY-MM-DD') : null;
+
+  // Broken limits after manual edits; the result page shows these as warnings
+  const issues = [
+    ...Object.entries(outcome.constraintErrors).map(([key, message]) =>
+      key.startsWith('round-')
+        ? {
+            type: 'replacement',
+            round: parseInt(key.replace('round-', ''), 10) + 1,
+            message,
+          }
+        : key.startsWith('swap-')
+          ? {
+              type: 'swap',
+              swap: parseInt(key.replace('swap-', ''), 10) + 1,
+              message,
+            }
+          : { type: 'appearances', person: key, message },
+    ),
+    ...outcome.spacingViolations.map(({ person, round, reason }) => ({
+      type: 'spacing',
+      person,
+      round: round + 1,
+      message: reason,
+    })),
+  ];
+
+  return NextResponse.json({
+    seed: outcome.seed,
+    seedText: outcome.seedText,
+    engineVersion: outcome.engineVersion,
+    rounds: outcome.teams.map((members, index) => {
+      const { date, meal } = getRoundSlot(outcome, index);
+      return { round: index + 1, date: formatDate(date), meal, members };
+    }),
+    appearances: outcome.appearances,
+    issues,
+  });
+};
+
+// GET /api/draw?pool=...&size=...: same params as the result page
+export async function GET(request: Request) {
+  return respond(new URL(request.url).searchParams);
+}
+
+// Separator of each list param that may be sent as an array of entries in
+// the link format (names already escaped)
+const ENTRY_SEPARATORS: Record<string, string> = {
+  size: ',',
+  unavailable: '\n',
+  contrib: '\n',
+  disabled: ';',
+  swap: ';',
+};
+
+const isPair = (value: unknown): value is Pair =>
+  Array.isArray(value) &&
+  value.length === 2 &&
+  value.every((name) => typeof name === 'string');
+
+/**
+ * Write an array from a JSON body as a link param
+ * @param name - Param name
+ * @param value - Array from the body
+ * @returns Param value in the latest name format, or null if the param
+ *   doesn't take this array
+ */
+const formatArrayParam = (name: string, value: unknown[]): string | null => {
+  // Names are escaped here, so they may contain any character
+  if (name === 'pool') {
+    return value.every((item) => typeof item === 'string')
+      ? formatPool(value)
+      : null;
+  }
+  if (name === 'avoid' || name === 'require') {
+    return value.every(isPair) ? formatPairs(value) : null;
+  }
+
+  const separator = ENTRY_SEPARATORS[name];
+  return separator &&
+    value.every((item) => ['string', 'number'].includes(typeof item))
+    ? value.join(separator)
+    : null;
+};
+
+// POST /api/draw with a JSON object of the same params; `pool` may be an
+// array of names, `avoid` and `require` arrays of name pairs, and `size`,
+// `unavailable`, `contrib`, `disabled` and `swap` arrays of entries
+export async function POST(request: Request) {
+  let body: unknown;
+  try {
+    body = await request.json();
+  } catch {
+    return errorResponse('invalid_json', 'JSON 본문을 읽을 수 없습니다.', 400);
+  }
+
+  if (!body || typeof body !== 'object' || Array.isArray(body)) {
+    return errorResponse(
+      'invalid_json',
+      '요청 본문은 설정 이름과 값으로 된 JSON 객체여야 합니다.',
+      400,
+    );
+  }
+
+  const searchParams = new URLSearchParams();
+  for (const [name, value] of Object.entries(body)) {
+    if (value === null || value === undefined) continue;
+
+    if (Array.isArray(value)) {
+      const formatted = formatArrayParam(name, value);
+      if (formatted === null) {
+        return errorResponse(
+          'invalid_json',
+          `배열로 보낼 수 없는 설정이거나 배열 항목의 형식이 올바르지 않습니다: ${name}`,
+          400,
+        );
+      }
+      searchParams.set(name, formatted);
+    } else if (['string', 'number', 'boolean'].includes(typeof value)) {
+      searchParams.set(
+        name,
+        typeof value === 'boolean' ? (value ? '1' : '') : String(value),
+      );
+    } else {
+      return errorResponse(
+        'invalid_json',
+        `설정 값의 형식이 올바르지 않습니다: ${name}`,
+        400,
+      );
+    }
+  }
+
+  // Arrays are written in the latest name format
+  if (
+    Object.values(body).some(Array.isArray) &&
+    searchParams.has(FORMAT_PARAM) &&
+    searchParams.get(FORMAT_PARAM) !== String(LATEST_FORMAT_VERSION)
+  ) {
+    return errorResponse(
+      'invalid_json',
+      `배열 설정은 최신 링크 형식(${FORMAT_PARAM}=${LATEST_FORMAT_VERSION})에서만 쓸 수 있습니다.`,
+      400,
+    );
+  }
+
+  return respond(searchParams);
+}
@@ -0,0 +1,115 @@
+import { readFile } from 'node:fs/promises';
+import { join } from 'node:path';
+import { ImageResponse } from 'next/og';
+import { expandParams } from '@/lib/links';
+import { getLinkSummary, hasFixedSeed } from '@/lib/share';
+
+// Meals that fit on the card; the rest are counted in the last line
+const MAX_CARD_ROUNDS = 5;
+
+// Pretendard Bold ships with the app (SIL OFL, see assets/fonts), since the
+// built-in font has no Hangul and a font service may be out of reach
+let fontData: Promise<ArrayBuffer | null> | null = null;
+const loadFont = () =>
+  (fontData ??= readFile(
+    join(process.cwd(), 'assets/fonts/Pretendard-Bold.otf'),
+  ).then(
+    (buffer) =>
+      buffer.buffer.slice(
+        buffer.byteOffset,
+        buffer.byteOffset + buffer.byteLength,
+      ) as ArrayBuffer,
+    (error) => {
+      console.error('Failed to load font:', error);
+      return null;
+    },
+  ));
+
+// Cards of links with a fixed seed never change; the rest are drawn again on
+// every visit
+const CACHE_CONTROL = 'public, max-age=31536000, immutable';
+
+// Card image of the day's teams for link previews
+export async function GET(request: Request) {
+  const params = new URL(request.url).searchParams;
+  const summary = await getLinkSummary(params);
+  const searchParams = await expandParams(params);
+  const immutable =
+    summary !== null &&
+    !('error' in searchParams) &&
+    hasFixedSeed(searchParams);
+
+  const title = summary?.title ?? '식당청소 뺑뺑이';
+  const rounds = summary?.rounds.slice(0, MAX_CARD_ROUNDS) ?? [];
+  const hiddenRounds = (summary?.rounds.length ?? 0) - rounds.length;
+  const footer = summary
+    ? hiddenRounds > 0
+      ? `외 ${hiddenRounds}개 식사 · 식당청소 뺑뺑이`
+      : '식당청소 뺑뺑이'
+    : '사다리 억까는 이제 그만!';
+
+  const font = await loadFont();
+
+  return new ImageResponse(
+    (
+      <div
+        style={{
+          width: '100%',
+          height: '100%',
+          display: 'flex',
+          flexDirection: 'column',
+          padding: '56px 64px',
+          background: '#ffffff',
+          color: '#18181b',
+          ...(font && { fontFamily: 'Pretendard' }),
+        }}
+      >
+        <div style={{ display: 'flex', fontSize: 52, fontWeight: 700 }}>
+          {title}
+        </div>
+        <div
+          style={{
+            display: 'flex',
+            flexDirection: 'column',
+            flexGrow: 1,
+            justifyContent: 'center',
+            gap: 20,
+          }}
+        >
+          {rounds.map(({ title: roundTitle, members }, index) => (
+            <div
+              key={index}
+              style={{ display: 'flex', alignItems: 'baseline', gap: 32 }}
+            >
+              <div
+                style={{
+                  display: 'flex',
+                  width: 300,
+                  fontSize: 34,
+                  color: '#71717a',
+                }}
+              >
+                {roundTitle}
+              </div>
+              <div style={{ display: 'flex', fontSize: 44, fontWeight: 700 }}>
+                {members.join(' · ')}
+              </div>
+            </div>
+          ))}
+        </div>
+        <div style={{ display: 'flex', fontSize: 28, color: '#71717a' }}>
+          {footer}
+        </div>
+      </div>
+    ),
+    {
+      width: 1200,
+      height: 630,
+      fonts: font
+        ? [{ name: 'Pretendard', data: font, weight: 700, style: 'normal' }]
+        : undefined,
+      // Links without a fixed seed show the generic card, which may change
+      headers: immutable ? { 'Cache-Control': CACHE_CONTROL } : undefined,
+    },
+  );
+}
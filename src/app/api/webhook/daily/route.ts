@@ -0,0 +1,31 @@
+import dayjs from 'dayjs';
+import { errorResponse, isAuthorized, publishDraw } from '@/lib/publish';
+
+// GET /api/webhook/daily: post the day's teams from `WEBHOOK_PARAMS`, for a
+// scheduler (cron, Vercel Cron) calling with `Authorization: Bearer
+// $CRON_SECRET`; `?date=YYYYMMDD` posts another day
+export async function GET(request: Request) {
+  const cronSecret = process.env.CRON_SECRET;
+  const params = process.env.WEBHOOK_PARAMS;
+  if (!cronSecret || !params) {
+    return errorResponse(
+      'not_configured',
+      '예약 전송 설정(CRON_SECRET, WEBHOOK_PARAMS)이 없습니다.',
+      503,
+    );
+  }
+
+  if (!isAuthorized(request, cronSecret)) {
+    return errorResponse('unauthorized', '예약 전송 비밀값이 다릅니다.', 401);
+  }
+
+  const url = new URL(request.url);
+  const searchParams = new URLSearchParams(params);
+  // Each day is drawn from its own date seed, in the server's time zone
+  searchParams.set(
+    'seed',
+    url.searchParams.get('date') || dayjs().format('YYYYMMDD'),
+  );
+
+  return publishDraw(searchParams, url.origin);
+}
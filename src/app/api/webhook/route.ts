@@ -0,0 +1,44 @@
+import { errorResponse, isAuthorized, publishDraw } from '@/lib/publish';
+
+// POST /api/webhook with `{ params, template }`: post the result link with
+// these params to the chat room (on demand from the result page), for callers
+// with `Authorization: Bearer $WEBHOOK_SECRET`
+export async function POST(request: Request) {
+  const webhookSecret = process.env.WEBHOOK_SECRET;
+  if (!webhookSecret) {
+    return errorResponse(
+      'not_configured',
+      '웹훅 전송 비밀값(WEBHOOK_SECRET)이 설정되지 않았습니다.',
+      503,
+    );
+  }
+
+  if (!isAuthorized(request, webhookSecret)) {
+    return errorResponse('unauthorized', '웹훅 전송 비밀값이 다릅니다.', 401);
+  }
+
+  let body: unknown;
+  try {
+    body = await request.json();
+  } catch {
+    return errorResponse('invalid_json', 'JSON 본문을 읽을 수 없습니다.', 400);
+  }
+
+  const { params, template } = (body ?? {}) as Record<string, unknown>;
+  if (
+    typeof params !== 'string' ||
+    (template !== undefined && typeof template !== 'string')
+  ) {
+    return errorResponse(
+      'invalid_json',
+      '요청 본문은 결과 링크의 params 문자열과 선택적인 template이어야 합니다.',
+      400,
+    );
+  }
+
+  return publishDraw(
+    new URLSearchParams(params),
+    new URL(request.url).origin,
+    template,
+  );
+}
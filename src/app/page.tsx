@@ -9,8 +9,21 @@ import {
   PopoverContent,
   PopoverTrigger,
 } from '@/components/ui/popover';
-import { CalendarIcon } from 'lucide-react';
+import { CalendarIcon, Check, Copy } from 'lucide-react';
 import dayjs from 'dayjs';
+import { parseSeed, parseTeamSizes, MAX_SCHEDULE_DAYS } from '@/lib/randomizer';
+import { parseMealSchedule } from '@/lib/meals';
+import { LATEST_ENGINE_VERSION } from '@/lib/engine';
+import { parseUnavailability } from '@/lib/constraints';
+import { createCommitment, createSecret } from '@/lib/commitment';
+import { parseResultRecord } from '@/lib/records';
+import { migrateParams, DEFAULT_DRAW_LIMITS } from '@/lib/draw';
+import { FORMAT_PARAM, LATEST_FORMAT_VERSION } from '@/lib/encoding';
+import {
+  HOLIDAY_CALENDAR_PARAM,
+  LATEST_HOLIDAY_CALENDAR,
+} from '@/lib/holidays';
+import { compactParams, expandParams } from '@/lib/links';
 
 export default function Home() {
   return (
@@ -46,44 +59,154 @@ function HomeContent() {
     min: '0',
     max: '',
     seed: '',
+    end: '',
+    avoid: '',
+    require: '',
+    unavailable: '',
+    gap: '',
+    perDay: '',
+    crossDay: '',
+    meals: '',
+    secret: '',
+    contrib: '',
   });
 
+  // Commitment of the current seed and secret, published before the draw
+  const [commitment, setCommitment] = useState<string | null>(null);
+  const [sealedCopied, setSealedCopied] = useState(false);
+
   // Use ref to track if form has been filled with URL params
   const initialParamsApplied = useRef(false);
 
+  // Hidden file picker for restoring an exported result
+  const importInputRef = useRef<HTMLInputElement>(null);
+
   // Fill form with query parameters if they exist
   useEffect(() => {
     // Skip if we've already applied the initial params
     if (initialParamsApplied.current) return;
 
-    // Check for each parameter and update form state
-    const currentFormData = { ...formData };
-    let updated = false;
+    // Compact links are expanded before filling the form
+    let cancelled = false;
+    expandParams(searchParams).then((expanded) => {
+      if (cancelled) return;
+      if ('error' in expanded) {
+        alert(expanded.error);
+        return;
+      }
+
+      // Older links are read in the current name format
+      const params = migrateParams(expanded);
+
+      // Check for each parameter and update form state
+      const currentFormData = { ...formData };
+      let updated = false;
 
-    // Check each form field for corresponding URL parameter
-    Object.keys(currentFormData).forEach((key) => {
-      const paramValue = searchParams.get(key);
-      if (paramValue !== null) {
-        currentFormData[key as keyof typeof currentFormData] = paramValue;
-        updated = true;
+      // Check each form field for corresponding URL parameter
+      Object.keys(currentFormData).forEach((key) => {
+        const paramValue = params.get(key);
+        if (paramValue !== null) {
+          currentFormData[key as keyof typeof currentFormData] = paramValue;
+          updated = true;
+        }
+      });
+
+      // Only update state if we found parameters
+      if (updated) {
+        setFormData(currentFormData);
+        // Mark that we've applied the initial params
+        initialParamsApplied.current = true;
       }
     });
-
-    // Only update state if we found parameters
-    if (updated) {
-      setFormData(currentFormData);
-      // Mark that we've applied the initial params
-      initialParamsApplied.current = true;
-    }
+    return () => {
+      cancelled = true;
+    };
     // We intentionally don't include formData in dependencies to avoid infinite loops
     // eslint-disable-next-line react-hooks/exhaustive-deps
   }, [searchParams]);
 
+  // Keep the commitment in sync with the seed and secret
+  useEffect(() => {
+    if (!formData.secret || !formData.seed.trim()) {
+      setCommitment(null);
+      return;
+    }
+
+    let cancelled = false;
+    createCommitment(parseSeed(formData.seed).seedText, formData.secret).then(
+      (hash) => {
+        if (!cancelled) setCommitment(hash);
+      },
+    );
+    return () => {
+      cancelled = true;
+    };
+  }, [formData.seed, formData.secret]);
+
+  // Build result link params from the form (without the secret when sealed)
+  const buildResultParams = (sealed: boolean) => {
+    const params = new URLSearchParams();
+    Object.entries(formData).forEach(([key, value]) => {
+      if (value && !(sealed && key === 'secret')) params.append(key, value);
+    });
+    if (formData.secret && commitment) {
+      params.append('commit', commitment);
+    }
+    // New links are drawn with the latest engine, name format and holidays
+    params.append('v', String(LATEST_ENGINE_VERSION));
+    params.append(FORMAT_PARAM, String(LATEST_FORMAT_VERSION));
+    params.append(HOLIDAY_CALENDAR_PARAM, String(LATEST_HOLIDAY_CALENDAR));
+    return params;
+  };
+
+  // Copy the link to publish before the draw: it shows only the commitment
+  const copySealedLink = async () => {
+    // Contributions known before the commitment could be previewed with it
+    if (formData.contrib.trim()) {
+      alert(
+        '봉인 링크에는 함께 정하는 시드를 비워 두세요. 기여값은 봉인 링크를 공지한 뒤에 받아야 합니다',
+      );
+      return;
+    }
+
+    const params = await compactParams(buildResultParams(true));
+    const url = `${window.location.origin}/result?${params.toString()}`;
+    navigator.clipboard?.writeText(url).then(() => {
+      setSealedCopied(true);
+      setTimeout(() => setSealedCopied(false), 2000);
+    });
+  };
+
   const handleChange = (
     e: React.ChangeEvent<HTMLInputElement | HTMLTextAreaElement>,
   ) => {
     const { name, value } = e.target;
-    setFormData((prev) => ({ ...prev, [name]: value }));
+    // Checkboxes are stored as '1' (checked) or '' like other params
+    const fieldValue =
+      e.target instanceof HTMLInputElement && e.target.type === 'checkbox'
+        ? e.target.checked
+          ? '1'
+          : ''
+        : value;
+    setFormData((prev) => ({ ...prev, [name]: fieldValue }));
+  };
+
+  // Restore a result from a JSON record exported on the result page
+  const handleImport = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+
+    file.text().then((text) => {
+      const record = parseResultRecord(text);
+      if ('error' in record) {
+        alert(record.error);
+        return;
+      }
+
+      setIsLoading(true);
+      router.push(`/result?${new URLSearchParams(record.params).toString()}`);
+    });
   };
 
   const handleSubmit = (e: React.FormEvent) => {
@@ -95,16 +218,62 @@ function HomeContent() {
       return;
     }
 
-    setIsLoading(true);
+    // Catch malformed unavailability entries before drawing
+    const unavailability = parseUnavailability(
+      formData.unavailable,
+      LATEST_FORMAT_VERSION,
+    );
+    if ('error' in unavailability) {
+      alert(unavailability.error);
+      return;
+    }
 
-    // Create query string for the URL
-    const params = new URLSearchParams();
-    Object.entries(formData).forEach(([key, value]) => {
-      if (value) params.append(key, value);
-    });
+    // Catch malformed meal schedule entries before drawing
+    const mealSchedule = parseMealSchedule(formData.meals);
+    if ('error' in mealSchedule) {
+      alert(mealSchedule.error);
+      return;
+    }
+
+    // Catch malformed per-meal team sizes before drawing
+    const teamSizes = parseTeamSizes(formData.size);
+    if ('error' in teamSizes) {
+      alert(teamSizes.error);
+      return;
+    }
+
+    // A date range needs a date seed as its first day
+    if (formData.end && !parseSeed(formData.seed).isDateSeed) {
+      alert('종료 날짜를 사용하려면 시드 값에 시작 날짜를 입력해주세요');
+      return;
+    }
+
+    // A commitment only proves something for a fixed seed
+    if (formData.secret && !formData.seed.trim()) {
+      alert('공정성 증명을 사용하려면 시드 값을 입력해주세요');
+      return;
+    }
+
+    // The organizer knows the seed and secret, so only contributions sent
+    // after the sealed link keep them from choosing the result
+    if (formData.secret && !formData.contrib.trim()) {
+      alert(
+        '공정성 증명을 사용하려면 봉인 링크를 공지한 뒤 참가자들에게 받은 기여값을 함께 정하는 시드에 넣어주세요',
+      );
+      return;
+    }
+
+    if (formData.secret && !commitment) {
+      alert(
+        '커밋 해시를 계산하지 못했습니다. HTTPS 환경에서 다시 시도해주세요',
+      );
+      return;
+    }
+
+    setIsLoading(true);
 
     // Redirect to result page
-    router.push(`/result?${params.toString()}`);
+    router.push(`/result?${buildResultParams(false).toString()}`);
 
     // Note: No need to reset isLoading since we're navigating away
   };
@@ -132,7 +301,84 @@ function HomeContent() {
               required
             />
             <p className="text-xs text-muted-foreground">
-              쉼표(,)로 구분하여 입력해주세요
+              쉼표(,)로 구분하여 입력해주세요. 이름에 쉼표(,)나 역슬래시(\)가
+              있으면 앞에 \를 붙여주세요 (예: 김철수\,병장)
+            </p>
+          </div>
+
+          <div className="grid grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <label htmlFor="require" className="block text-sm font-medium">
+                같은 팀 필수
+              </label>
+              <input
+                id="require"
+                name="require"
+                type="text"
+                value={formData.require}
+                onChange={handleChange}
+                placeholder="홍길동,식케이; ..."
+                className="w-full rounded-md border border-input bg-background px-3 py-2 text-sm"
+              />
+            </div>
+
+            <div className="space-y-2">
+              <label htmlFor="avoid" className="block text-sm font-medium">
+                같은 팀 금지
+              </label>
+              <input
+                id="avoid"
+                name="avoid"
+                type="text"
+                value={formData.avoid}
+                onChange={handleChange}
+                placeholder="전준태,홍길동; ..."
+                className="w-full rounded-md border border-input bg-background px-3 py-2 text-sm"
+              />
+            </div>
+          </div>
+          <p className="-mt-4 text-xs text-muted-foreground">
+            두 사람은 쉼표(,)로, 여러 쌍은 세미콜론(;)으로 구분해주세요. 이름의
+            쉼표, 세미콜론, 역슬래시(\) 앞에는 \를 붙여주세요
+          </p>
+
+          <div className="space-y-2">
+            <label htmlFor="unavailable" className="block text-sm font-medium">
+              열외 (휴가·근무·교육)
+            </label>
+            <textarea
+              id="unavailable"
+              name="unavailable"
+              value={formData.unavailable}
+              onChange={handleChange}
+              placeholder={
+                '홍길동:20250101~20250103\n식케이:20250102:아침,점심'
+              }
+              className="w-full min-h-[80px] rounded-md border border-input bg-background px-3 py-2 text-sm"
+            />
+            <p className="text-xs text-muted-foreground">
+              한 줄에 한 명씩 이름:날짜[~종료 날짜][:식사] 형식으로
+              입력해주세요. 식사를 생략하면 하루 전체가 열외됩니다. 이름의
+              콜론(:), 쉼표(,), 세미콜론(;), 역슬래시(\) 앞에는 \를 붙여주세요
+            </p>
+          </div>
+
+          <div className="space-y-2">
+            <label htmlFor="meals" className="block text-sm font-medium">
+              식사 일정
+            </label>
+            <textarea
+              id="meals"
+              name="meals"
+              value={formData.meals}
+              onChange={handleChange}
+              placeholder={'평일=아침,점심,저녁\n주말=브런치,저녁'}
+              className="w-full min-h-[80px] rounded-md border border-input bg-background px-3 py-2 text-sm"
+            />
+            <p className="text-xs text-muted-foreground">
+              한 줄에 하나씩 요일=식사,식사 형식으로 입력해주세요. 요일에는
+              평일, 주말, 공휴일, 월~일 또는 특정 날짜(YYYYMMDD)를 쓸 수 있고,
+              비워두면 평일 3끼·주말과 공휴일 2끼로 배정됩니다
             </p>
           </div>
 
@@ -144,13 +390,16 @@ function HomeContent() {
               <input
                 id="size"
                 name="size"
-                type="number"
-                min="1"
+                type="text"
+                inputMode="numeric"
                 value={formData.size}
                 onChange={handleChange}
-                placeholder="4"
+                placeholder="4 또는 3,4,6"
                 className="w-full rounded-md border border-input bg-background px-3 py-2 text-sm"
               />
+              <p className="text-xs text-muted-foreground">
+                식사별로 다르면 아침,점심,저녁 순으로 입력
+              </p>
             </div>
 
             <div className="space-y-2">
@@ -162,6 +411,7 @@ function HomeContent() {
                 name="rounds"
                 type="number"
                 min="1"
+                max={DEFAULT_DRAW_LIMITS.rounds}
                 value={formData.rounds}
                 onChange={handleChange}
                 placeholder="1"
@@ -200,8 +450,51 @@ function HomeContent() {
                 className="w-full rounded-md border border-input bg-background px-3 py-2 text-sm"
               />
             </div>
+
+            <div className="space-y-2">
+              <label htmlFor="gap" className="block text-sm font-medium">
+                최소 간격 (라운드)
+              </label>
+              <input
+                id="gap"
+                name="gap"
+                type="number"
+                min="0"
+                value={formData.gap}
+                onChange={handleChange}
+                placeholder="0"
+                className="w-full rounded-md border border-input bg-background px-3 py-2 text-sm"
+              />
+            </div>
+
+            <div className="space-y-2">
+              <label htmlFor="perDay" className="block text-sm font-medium">
+                하루 최대 횟수
+              </label>
+              <input
+                id="perDay"
+                name="perDay"
+                type="number"
+                min="1"
+                value={formData.perDay}
+                onChange={handleChange}
+                placeholder="제한 없음"
+                className="w-full rounded-md border border-input bg-background px-3 py-2 text-sm"
+              />
+            </div>
           </div>
 
+          <label className="flex items-center gap-2 text-sm -mt-2">
+            <input
+              name="crossDay"
+              type="checkbox"
+              checked={formData.crossDay === '1'}
+              onChange={handleChange}
+              className="h-4 w-4 rounded border-input"
+            />
+            최소 간격을 날짜를 넘어서도 적용 (저녁 → 다음 날 아침)
+          </label>
+
           <div className="space-y-2">
             <label htmlFor="seed" className="block text-sm font-medium">
               시드 값
@@ -213,7 +506,7 @@ function HomeContent() {
                 type="text"
                 value={formData.seed}
                 onChange={handleChange}
-                placeholder="랜덤 또는 YYYYMMDD 형식의 날짜"
+                placeholder="랜덤, YYYYMMDD 형식의 날짜 또는 아무 문구"
                 className="w-full rounded-md border border-input bg-background px-3 py-2 text-sm"
               />
               <Popover>
@@ -241,7 +534,128 @@ function HomeContent() {
               </Popover>
             </div>
             <p className="text-xs text-muted-foreground">
-              빈칸으로 두면 랜덤 시드 사용, YYYYMMDD 형식으로 날짜 입력 가능
+              빈칸으로 두면 랜덤 시드 사용, YYYYMMDD 형식으로 날짜 입력 가능.
+              문구(예: 2026-10-19-3소대)를 넣으면 항상 같은 결과가 나옵니다
+            </p>
+          </div>
+
+          <div className="space-y-2">
+            <label htmlFor="contrib" className="block text-sm font-medium">
+              함께 정하는 시드
+            </label>
+            <textarea
+              id="contrib"
+              name="contrib"
+              value={formData.contrib}
+              onChange={handleChange}
+              placeholder={'홍길동:1234\n식케이:오늘 점심은 제육'}
+              className="w-full min-h-[80px] rounded-md border border-input bg-background px-3 py-2 text-sm"
+            />
+            <p className="text-xs text-muted-foreground">
+              여러 사람이 한 줄에 하나씩 이름:숫자 또는 문구를 넣으면 모두 섞어
+              최종 시드를 만듭니다. 순서는 결과에 영향을 주지 않아 누구 한
+              사람이 결과를 정할 수 없습니다. 콜론(:), 세미콜론(;), 역슬래시(\)
+              앞에는 \를 붙여주세요
+            </p>
+          </div>
+
+          <div className="space-y-2">
+            <label htmlFor="end" className="block text-sm font-medium">
+              종료 날짜
+            </label>
+            <div className="flex gap-2">
+              <input
+                id="end"
+                name="end"
+                type="text"
+                value={formData.end}
+                onChange={handleChange}
+                placeholder="YYYYMMDD 형식의 날짜 (선택)"
+                className="w-full rounded-md border border-input bg-background px-3 py-2 text-sm"
+              />
+              <Popover>
+                <PopoverTrigger asChild>
+                  <button
+                    type="button"
+                    className="border border-input bg-background hover:bg-muted p-2 rounded-md"
+                  >
+                    <CalendarIcon className="h-5 w-5" />
+                  </button>
+                </PopoverTrigger>
+                <PopoverContent className="w-auto p-0">
+                  <Calendar
+                    mode="single"
+                    onSelect={(date) => {
+                      if (date) {
+                        setFormData((prev) => ({
+                          ...prev,
+                          end: dayjs(date).format('YYYYMMDD'),
+                        }));
+                      }
+                    }}
+                  />
+                </PopoverContent>
+              </Popover>
+            </div>
+            <p className="text-xs text-muted-foreground">
+              시드 날짜부터 종료 날짜까지 한 번에 뽑습니다 (최대{' '}
+              {MAX_SCHEDULE_DAYS}일). 최소/최대 식청 횟수는 기간 전체에
+              적용됩니다
+            </p>
+          </div>
+
+          <div className="space-y-2">
+            <label htmlFor="secret" className="block text-sm font-medium">
+              공정성 증명 (비밀값)
+            </label>
+            <div className="flex gap-2">
+              <input
+                id="secret"
+                name="secret"
+                type="text"
+                value={formData.secret}
+                onChange={handleChange}
+                placeholder="사용하지 않음"
+                className="w-full rounded-md border border-input bg-background px-3 py-2 text-sm font-mono"
+              />
+              <button
+                type="button"
+                onClick={() =>
+                  setFormData((prev) => ({ ...prev, secret: createSecret() }))
+                }
+                className="border border-input bg-background hover:bg-muted px-3 py-2 rounded-md text-sm whitespace-nowrap"
+              >
+                생성
+              </button>
+            </div>
+            {commitment && (
+              <div className="p-3 rounded-md bg-muted space-y-2">
+                <p className="text-xs text-muted-foreground">커밋 해시</p>
+                <p className="font-mono text-xs break-all">{commitment}</p>
+                <button
+                  type="button"
+                  onClick={copySealedLink}
+                  className="flex items-center gap-1 text-xs font-medium hover:underline"
+                >
+                  {sealedCopied ? (
+                    <>
+                      <Check className="h-3 w-3" />
+                      복사됨
+                    </>
+                  ) : (
+                    <>
+                      <Copy className="h-3 w-3" />
+                      봉인 링크 복사
+                    </>
+                  )}
+                </button>
+              </div>
+            )}
+            <p className="text-xs text-muted-foreground">
+              추첨 전에 함께 정하는 시드를 비운 채 봉인 링크(커밋 해시)를
+              공지하고, 참가자들에게 기여값을 받아 넣은 뒤 결과 링크를
+              공유하세요. 진행자도 기여값을 미리 알 수 없어 결과를 고를 수 없고,
+              누구나 비밀값이 공지된 해시와 일치하는지 확인할 수 있습니다
             </p>
           </div>
 
@@ -284,6 +698,27 @@ function HomeContent() {
             )}
           </button>
         </form>
+
+        <div>
+          <input
+            ref={importInputRef}
+            type="file"
+            accept="application/json,.json"
+            onChange={handleImport}
+            className="hidden"
+          />
+          <button
+            type="button"
+            onClick={() => importInputRef.current?.click()}
+            disabled={isLoading}
+            className={cn(
+              'w-full py-2 px-4 rounded-md font-medium transition-colors',
+              'bg-muted text-foreground hover:bg-muted/80 disabled:opacity-70',
+            )}
+          >
+            기록 불러오기 (JSON)
+          </button>
+        </div>
       </div>
     </div>
   );
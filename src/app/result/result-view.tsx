@@ -0,0 +1,1290 @@
+'use client';
+
+import {
+  useEffect,
+  useState,
+  Suspense,
+  useCallback,
+  useMemo,
+  useRef,
+} from 'react';
+import { useRouter, useSearchParams } from 'next/navigation';
+import Link from 'next/link';
+import dayjs from 'dayjs';
+import {
+  ArrowLeftRight,
+  Copy,
+  Check,
+  Download,
+  Printer,
+  RotateCcw,
+  X,
+} from 'lucide-react';
+import { cn, downloadFile } from '@/lib/utils';
+import { ScheduleGrid } from '@/components/schedule-grid';
+import { DrawAudit } from '@/components/draw-audit';
+import { CalendarExport } from '@/components/calendar-export';
+import { PrintRoster } from '@/components/print-roster';
+import { WebhookPublish } from '@/components/webhook-publish';
+import { EditLog } from '@/components/edit-log';
+import { getAdjacentDates, type DrawStep } from '@/lib/randomizer';
+import { describeSpacingRules, type SpacingViolation } from '@/lib/constraints';
+import { DEFAULT_MEAL_SCHEDULE } from '@/lib/meals';
+import { getHolidayCoverageNotice } from '@/lib/holidays';
+import { LATEST_ENGINE_VERSION } from '@/lib/engine';
+import { verifyCommitment, type CommitmentStatus } from '@/lib/commitment';
+import { compactParams, expandParams, COMPACT_PARAM } from '@/lib/links';
+import { getFormatVersion, FORMAT_PARAM } from '@/lib/encoding';
+import {
+  drawFromParams,
+  formatDisabledForUrl,
+  formatRoundTitle,
+  formatSwapsForUrl,
+  getRoundSlot,
+  migrateParams,
+  parseDisabledFromUrl,
+  parseSwapsFromUrl,
+  validateSwap,
+  type DrawResult,
+  type Swap,
+  type SwapSide,
+} from '@/lib/draw';
+import {
+  describeTeamChanges,
+  isSameCustomizations,
+  readCustomizations,
+  recordEdit,
+  redoEdit,
+  undoEdit,
+  withCustomizations,
+  EMPTY_HISTORY,
+  type Customizations,
+  type EditHistory,
+} from '@/lib/history';
+import {
+  createResultRecord,
+  formatRecordCsv,
+  formatRecordJson,
+} from '@/lib/records';
+
+/**
+ * Result page contents; the teams are drawn in the browser from the link
+ */
+export function ResultView() {
+  return (
+    <Suspense
+      fallback={
+        <div className="flex min-h-screen flex-col items-center p-6 bg-background">
+          <div className="w-full max-w-2xl space-y-8">
+            <div className="text-center">
+              <h1 className="text-3xl font-bold">식당청소 뺑뺑이</h1>
+              <div className="mt-2 h-8 w-48 mx-auto bg-muted animate-pulse rounded"></div>
+            </div>
+            <div className="space-y-4">
+              <div className="h-16 bg-muted animate-pulse rounded-md"></div>
+              <div className="h-16 bg-muted animate-pulse rounded-md"></div>
+              <div className="space-y-6">
+                <div className="flex justify-between">
+                  <div className="h-8 w-32 bg-muted animate-pulse rounded"></div>
+                </div>
+                <div className="p-4 rounded-md bg-card border border-border h-48 animate-pulse"></div>
+              </div>
+            </div>
+          </div>
+        </div>
+      }
+    >
+      <ResultContent />
+    </Suspense>
+  );
+}
+
+function ResultContent() {
+  const router = useRouter();
+  const searchParams = useSearchParams();
+  const [result, setResult] = useState<DrawResult>({
+    seed: 0,
+    seedText: '',
+    secret: null,
+    commitment: null,
+    contributions: [],
+    engineVersion: LATEST_ENGINE_VERSION,
+    isDateSeed: false,
+    formattedDate: null,
+    parsedDate: null,
+    formattedEndDate: null,
+    days: null,
+    pool: [],
+    avoidPairs: [],
+    requirePairs: [],
+    unavailability: [],
+    unavailable: [],
+    spacing: null,
+    mealSchedule: DEFAULT_MEAL_SCHEDULE,
+    teamSizes: [],
+    teams: null,
+    appearances: null,
+    error: null,
+    infeasible: false,
+  });
+
+  const [adjacentDates, setAdjacentDates] = useState<ReturnType<
+    typeof getAdjacentDates
+  > | null>(null);
+
+  const [copied, setCopied] = useState(false);
+  const [isLoading, setIsLoading] = useState(false);
+  const [highlightedPerson, setHighlightedPerson] = useState<string | null>(
+    null,
+  );
+
+  const [constraintErrors, setConstraintErrors] = useState<
+    Record<string, string>
+  >({});
+
+  const [spacingViolations, setSpacingViolations] = useState<
+    SpacingViolation[]
+  >([]);
+
+  const [commitmentStatus, setCommitmentStatus] =
+    useState<CommitmentStatus | null>(null);
+
+  // Steps of the draw, recorded in audit mode
+  const [trace, setTrace] = useState<DrawStep[] | null>(null);
+  const isAuditMode = searchParams.get('audit') === '1';
+
+  // Parse disabled participants from URL
+  const disabledParticipants = useMemo(() => {
+    const disabledParam = searchParams.get('disabled');
+    return parseDisabledFromUrl(disabledParam, getFormatVersion(searchParams));
+  }, [searchParams]);
+
+  // Duties traded by hand, applied after the replacements
+  const swaps = useMemo(
+    () =>
+      parseSwapsFromUrl(
+        searchParams.get('swap'),
+        getFormatVersion(searchParams),
+      ),
+    [searchParams],
+  );
+
+  const isCustomized =
+    Object.keys(disabledParticipants).length > 0 || swaps.length > 0;
+
+  // Holidays past the built-in calendar would silently run weekday meals
+  const holidayNotice =
+    result.isDateSeed && result.parsedDate
+      ? getHolidayCoverageNotice(
+          result.parsedDate,
+          result.days ? result.days[result.days.length - 1].date : null,
+          result.mealSchedule.holidayCalendar,
+        )
+      : null;
+
+  // First person picked for a trade, waiting for the other side
+  const [swapSource, setSwapSource] = useState<SwapSide | null>(null);
+  const [swapError, setSwapError] = useState<string | null>(null);
+
+  // Undoable edits; the pending edit joins the history once its teams are
+  // drawn
+  const [editHistory, setEditHistory] = useState<EditHistory>(EMPTY_HISTORY);
+  const pendingEdit = useRef<{
+    label: string;
+    before: Customizations;
+    after: Customizations;
+    teams: string[][];
+  } | null>(null);
+
+  // Draw settings without the edits; changing them starts a new history
+  const drawKey = useMemo(() => {
+    const params = withCustomizations(searchParams, {
+      disabled: null,
+      swap: null,
+    });
+    params.delete('audit');
+    return params.toString();
+  }, [searchParams]);
+
+  useEffect(() => {
+    setEditHistory(EMPTY_HISTORY);
+    pendingEdit.current = null;
+  }, [drawKey]);
+
+  const copyToClipboard = async () => {
+    try {
+      // Shared links carry the settings compressed, so messengers don't cut them
+      const baseUrl = `${window.location.origin}${window.location.pathname}`;
+      const currentUrl = `${baseUrl}?${(await compactParams(searchParams)).toString()}`;
+
+      if (navigator?.clipboard) {
+        navigator.clipboard.writeText(currentUrl).then(() => {
+          setCopied(true);
+          setTimeout(() => setCopied(false), 2000);
+        });
+      } else {
+        const textArea = document.createElement('textarea');
+        textArea.value = currentUrl;
+        textArea.style.position = 'fixed';
+        document.body.appendChild(textArea);
+        textArea.focus();
+        textArea.select();
+        const success = document.execCommand('copy');
+        document.body.removeChild(textArea);
+
+        if (success) {
+          setCopied(true);
+          setTimeout(() => setCopied(false), 2000);
+        }
+      }
+    } catch (err) {
+      console.error('Failed to copy: ', err);
+    }
+  };
+
+  // Save an edit to the URL, remembering it for the edit history
+  const applyEdit = useCallback(
+    (after: Customizations, label: string) => {
+      const before = readCustomizations(searchParams);
+      if (isSameCustomizations(before, after)) return;
+
+      pendingEdit.current = {
+        label,
+        before,
+        after,
+        teams: result.teams ?? [],
+      };
+      router.replace(`/result?${withCustomizations(searchParams, after)}`, {
+        scroll: false,
+      });
+    },
+    [searchParams, router, result.teams],
+  );
+
+  // Toggle participant for a specific round
+  const toggleParticipant = useCallback(
+    (person: string, round: number) => {
+      const currentDisabled = parseDisabledFromUrl(
+        searchParams.get('disabled'),
+        getFormatVersion(searchParams),
+      );
+
+      if (!currentDisabled[round]) {
+        currentDisabled[round] = new Set();
+      }
+
+      const wasDisabled = currentDisabled[round].has(person);
+      if (wasDisabled) {
+        currentDisabled[round].delete(person);
+      } else {
+        currentDisabled[round].add(person);
+      }
+
+      // Clean up empty sets
+      if (currentDisabled[round].size === 0) {
+        delete currentDisabled[round];
+      }
+
+      applyEdit(
+        {
+          ...readCustomizations(searchParams),
+          disabled: formatDisabledForUrl(currentDisabled),
+        },
+        `${formatRoundTitle(result, round)}: ${person} ${wasDisabled ? '복귀' : '제외'}`,
+      );
+    },
+    [searchParams, applyEdit, result],
+  );
+
+  // Save trades to the URL
+  const updateSwaps = useCallback(
+    (nextSwaps: Swap[], label: string) => {
+      applyEdit(
+        {
+          ...readCustomizations(searchParams),
+          swap: formatSwapsForUrl(nextSwaps),
+        },
+        label,
+      );
+    },
+    [searchParams, applyEdit],
+  );
+
+  // Describe a trade for messages and the edit history
+  const formatSwap = ([first, second]: Swap) =>
+    `${first.person} (${formatRoundTitle(result, first.round)}) ↔ ${second.person} (${formatRoundTitle(result, second.round)})`;
+
+  // Pick one side of a trade; the second pick trades the two duties
+  const selectForSwap = (person: string, round: number) => {
+    setSwapError(null);
+
+    if (!swapSource) {
+      setSwapSource({ round, person });
+      return;
+    }
+    setSwapSource(null);
+    if (swapSource.round === round && swapSource.person === person) return;
+
+    const swap: Swap = [swapSource, { round, person }];
+    const error = validateSwap(
+      result.teams ?? [],
+      swap,
+      result.unavailable,
+      result.avoidPairs,
+      result.requirePairs,
+    );
+    if (error) {
+      setSwapError(`${swapSource.person} ↔ ${person}: ${error}`);
+      return;
+    }
+    updateSwaps([...swaps, swap], `${formatSwap(swap)} 교환`);
+  };
+
+  // Clear all customizations
+  const clearCustomizations = useCallback(() => {
+    applyEdit({ disabled: null, swap: null }, '수동 조정 초기화');
+  }, [applyEdit]);
+
+  // Move through the edit history
+  const stepHistory = useCallback(
+    (step: typeof undoEdit) => {
+      const stepped = step(editHistory);
+      if (!stepped) return;
+
+      pendingEdit.current = null;
+      setEditHistory(stepped.history);
+      router.replace(
+        `/result?${withCustomizations(searchParams, stepped.customizations)}`,
+        { scroll: false },
+      );
+    },
+    [editHistory, searchParams, router],
+  );
+
+  // Ctrl+Z / Ctrl+Shift+Z (or Ctrl+Y), outside text fields which keep their
+  // own undo
+  useEffect(() => {
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (!(event.ctrlKey || event.metaKey) || event.altKey) return;
+      if (
+        event.target instanceof HTMLElement &&
+        event.target.closest('input, textarea, select, [contenteditable]')
+      ) {
+        return;
+      }
+
+      const key = event.key.toLowerCase();
+      if (key === 'z' && !event.shiftKey) {
+        event.preventDefault();
+        stepHistory(undoEdit);
+      } else if ((key === 'z' && event.shiftKey) || key === 'y') {
+        event.preventDefault();
+        stepHistory(redoEdit);
+      }
+    };
+
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [stepHistory]);
+
+  // Show or hide the step-by-step replay of the draw
+  const toggleAudit = useCallback(() => {
+    const newParams = new URLSearchParams(searchParams.toString());
+    if (newParams.get('audit') === '1') {
+      newParams.delete('audit');
+    } else {
+      newParams.set('audit', '1');
+    }
+    router.replace(`/result?${newParams.toString()}`, { scroll: false });
+  }, [searchParams, router]);
+
+  useEffect(() => {
+    // Compact links and links in an older format are rewritten into current
+    // plain params before drawing
+    if (searchParams.has(COMPACT_PARAM) || !searchParams.has(FORMAT_PARAM)) {
+      let cancelled = false;
+      expandParams(searchParams).then((expanded) => {
+        if (cancelled) return;
+        if ('error' in expanded) {
+          setResult((current) => ({ ...current, error: expanded.error }));
+        } else {
+          router.replace(`/result?${migrateParams(expanded).toString()}`, {
+            scroll: false,
+          });
+        }
+      });
+      return () => {
+        cancelled = true;
+      };
+    }
+
+    const {
+      adjacentDates: adjacentDatesValue,
+      constraintErrors: errors,
+      spacingViolations: violations,
+      trace: drawTrace,
+      ...drawResult
+    } = drawFromParams(searchParams, { audit: isAuditMode });
+
+    // Batch all state updates
+    setResult(drawResult);
+
+    // Log the edit that led here, now that its teams are drawn
+    const pending = pendingEdit.current;
+    if (
+      pending &&
+      isSameCustomizations(pending.after, readCustomizations(searchParams))
+    ) {
+      pendingEdit.current = null;
+      setEditHistory((history) =>
+        recordEdit(history, {
+          label: pending.label,
+          changes: describeTeamChanges(
+            pending.teams,
+            drawResult.teams ?? [],
+            (round) => formatRoundTitle(drawResult, round),
+          ),
+          before: pending.before,
+          after: pending.after,
+        }),
+      );
+    }
+
+    if (adjacentDatesValue) {
+      setAdjacentDates(adjacentDatesValue);
+    }
+
+    setConstraintErrors(errors);
+    setTrace(drawTrace);
+    setSpacingViolations(violations);
+  }, [searchParams, isAuditMode, router]);
+
+  // Check the revealed secret against the published commitment
+  useEffect(() => {
+    if (!result.commitment) {
+      setCommitmentStatus(null);
+      return;
+    }
+
+    let cancelled = false;
+    setCommitmentStatus('checking');
+    verifyCommitment(
+      result.commitment,
+      result.seedText,
+      result.secret,
+      result.contributions.length,
+    ).then((status) => {
+      if (!cancelled) setCommitmentStatus(status);
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [
+    result.commitment,
+    result.seedText,
+    result.secret,
+    result.contributions.length,
+  ]);
+
+  // Meal label for a round, prefixed with its day when planning a range
+  const getRoundTitle = (index: number) => formatRoundTitle(result, index);
+
+  // Date and meal of each round (no date without a date seed)
+  const roundSlots = (result.teams ?? []).map((team, index) => ({
+    ...getRoundSlot(result, index),
+    team,
+  }));
+
+  // Calendar export needs dates, so date seeds only
+  const calendarDuties = roundSlots.flatMap(({ date, meal, team }) =>
+    date ? [{ date, meal, team }] : [],
+  );
+
+  // Exported files are named after the dates, or the seed without dates
+  const exportFileName =
+    calendarDuties.length > 0
+      ? `식청-${Array.from(
+          new Set([
+            dayjs(calendarDuties[0].date).format('YYYYMMDD'),
+            dayjs(calendarDuties[calendarDuties.length - 1].date).format(
+              'YYYYMMDD',
+            ),
+          ]),
+        ).join('-')}`
+      : `식청-${result.seed}`;
+
+  // Download the result on screen, customizations included
+  const exportRecord = (format: 'csv' | 'json') => {
+    const record = createResultRecord(searchParams, result);
+    if (!record) return;
+
+    if (format === 'csv') {
+      downloadFile(
+        formatRecordCsv(record),
+        `${exportFileName}.csv`,
+        'text/csv;charset=utf-8',
+      );
+    } else {
+      downloadFile(
+        formatRecordJson(record),
+        `${exportFileName}.json`,
+        'application/json',
+      );
+    }
+  };
+
+  // Team sizes only need labels when meals differ
+  const hasMixedTeamSizes = new Set(result.teamSizes).size > 1;
+
+  // Other dates can't reuse a commitment, so navigation drops it
+  const navigationParams = Object.fromEntries(
+    Array.from(searchParams.entries()).filter(
+      ([name]) => name !== 'secret' && name !== 'commit',
+    ),
+  );
+
+  const handleEditClick = () => {
+    setIsLoading(true);
+    router.push(`/?${searchParams.toString()}`);
+  };
+
+  return (
+    <div className="flex min-h-screen flex-col items-center p-6 bg-background print:block print:p-0">
+      {result.teams && (
+        <PrintRoster
+          date={result.formattedDate}
+          endDate={result.formattedEndDate}
+          days={result.days}
+          holidayCalendar={result.mealSchedule.holidayCalendar}
+          teams={result.teams}
+          getRoundTitle={getRoundTitle}
+        />
+      )}
+      <div className="w-full max-w-2xl space-y-8 print:hidden">
+        <div className="text-center">
+          <h1 className="text-3xl font-bold">식당청소 뺑뺑이</h1>
+          {result.formattedDate && (
+            <h2 className="mt-2 text-xl font-semibold">
+              {result.formattedDate.dateText} (
+              <span className={result.formattedDate.dayColor}>
+                {result.formattedDate.dayText}
+              </span>
+              )
+              {result.formattedDate.holidayName && (
+                <span className="ml-1 text-red-500">
+                  {result.formattedDate.holidayName}
+                </span>
+              )}
+              {result.formattedEndDate && (
+                <>
+                  {' ~ '}
+                  {result.formattedEndDate.dateText} (
+                  <span className={result.formattedEndDate.dayColor}>
+                    {result.formattedEndDate.dayText}
+                  </span>
+                  )
+                  {result.formattedEndDate.holidayName && (
+                    <span className="ml-1 text-red-500">
+                      {result.formattedEndDate.holidayName}
+                    </span>
+                  )}
+                </>
+              )}
+            </h2>
+          )}
+          {holidayNotice && (
+            <p className="mt-2 text-sm text-amber-600 dark:text-amber-400">
+              {holidayNotice}
+            </p>
+          )}
+          {isCustomized && (
+            <div className="mt-2 inline-flex items-center gap-2 px-3 py-1 bg-yellow-100 dark:bg-yellow-900 text-yellow-800 dark:text-yellow-100 rounded-full text-sm">
+              <span>수동 조정됨</span>
+              <button
+                onClick={clearCustomizations}
+                className="hover:underline flex items-center gap-1"
+              >
+                <RotateCcw className="h-3 w-3" />
+                초기화
+              </button>
+            </div>
+          )}
+        </div>
+
+        {result.error ? (
+          <div className="p-4 rounded-md bg-destructive/10 border border-destructive text-destructive">
+            <h3 className="font-semibold">오류 발생</h3>
+            <p>{result.error}</p>
+          </div>
+        ) : (
+          <>
+            {/* Seed and Pool Info */}
+            <div className="space-y-4">
+              <div className="p-4 rounded-md bg-muted">
+                <h3 className="font-medium mb-2">사용된 시드</h3>
+                <p className="font-mono text-sm">
+                  {result.seedText || '(함께 정하는 시드만 사용)'}
+                  {/* Text seeds also show the number they hash to */}
+                  {result.seedText !== String(result.seed) && (
+                    <span className="ml-2 text-muted-foreground">
+                      ({result.seed})
+                    </span>
+                  )}
+                </p>
+                <p className="mt-1 text-xs text-muted-foreground">
+                  엔진 v{result.engineVersion}
+                  {result.engineVersion < LATEST_ENGINE_VERSION &&
+                    ' (이전 링크를 그대로 재현하기 위한 이전 엔진)'}
+                </p>
+                {result.contributions.length > 0 && (
+                  <div className="mt-3">
+                    <h4 className="text-sm font-medium mb-1">
+                      함께 정하는 시드 ({result.contributions.length}명)
+                    </h4>
+                    <ul className="text-sm space-y-0.5">
+                      {result.contributions.map((contribution, index) => (
+                        <li key={index}>
+                          {contribution.name && (
+                            <span className="font-medium">
+                              {contribution.name}:{' '}
+                            </span>
+                          )}
+                          <span className="font-mono">
+                            {contribution.value}
+                          </span>
+                        </li>
+                      ))}
+                    </ul>
+                  </div>
+                )}
+              </div>
+
+              {result.commitment && (
+                <div
+                  className={cn(
+                    'p-4 rounded-md bg-muted border',
+                    commitmentStatus === 'mismatch'
+                      ? 'border-destructive'
+                      : 'border-transparent',
+                  )}
+                >
+                  <h3 className="font-medium mb-2">공정성 증명</h3>
+                  <p className="text-xs text-muted-foreground">커밋 해시</p>
+                  <p className="font-mono text-xs break-all">
+                    {result.commitment}
+                  </p>
+                  {result.secret && (
+                    <>
+                      <p className="mt-2 text-xs text-muted-foreground">
+                        공개된 비밀값
+                      </p>
+                      <p className="font-mono text-xs break-all">
+                        {result.secret}
+                      </p>
+                    </>
+                  )}
+                  <p
+                    className={cn(
+                      'mt-2 text-sm',
+                      commitmentStatus === 'verified' &&
+                        'text-green-600 dark:text-green-400',
+                      commitmentStatus === 'mismatch' && 'text-destructive',
+                      commitmentStatus === 'unanchored' &&
+                        'text-amber-600 dark:text-amber-400',
+                    )}
+                  >
+                    {commitmentStatus === 'sealed' &&
+                      '비밀값이 아직 공개되지 않았습니다. 이 해시를 확인한 뒤 진행자에게 숫자나 문구를 기여값으로 보내 주세요. 결과는 기여값과 비밀값이 담긴 링크가 공개된 뒤에 확인할 수 있습니다.'}
+                    {commitmentStatus === 'checking' && '확인 중...'}
+                    {commitmentStatus === 'verified' &&
+                      '✓ 비밀값이 커밋과 일치하고, 커밋 뒤에 받은 기여값이 섞였습니다. 추첨 전에 공지된 해시와 같은지, 내 기여값이 목록에 있는지 확인하세요.'}
+                    {commitmentStatus === 'unanchored' &&
+                      '비밀값은 커밋과 일치하지만 기여값이 섞이지 않았습니다. 진행자는 커밋 전에 시드와 비밀값을 알고 있어 결과를 미리 보고 고를 수 있었으므로 공정성이 증명되지 않습니다.'}
+                    {commitmentStatus === 'mismatch' &&
+                      '비밀값이 커밋과 일치하지 않습니다. 이 결과는 공지된 시드로 뽑힌 것이 아닙니다.'}
+                    {commitmentStatus === 'unavailable' &&
+                      '이 브라우저에서는 해시를 계산할 수 없어 확인하지 못했습니다.'}
+                  </p>
+                </div>
+              )}
+
+              <div className="p-4 rounded-md bg-muted">
+                <h3 className="font-medium mb-2">
+                  참가자 명단 ({result.pool.length}명)
+                </h3>
+                <p>{result.pool.join(', ')}</p>
+              </div>
+
+              {(result.avoidPairs.length > 0 ||
+                result.requirePairs.length > 0 ||
+                result.spacing) && (
+                <div className="p-4 rounded-md bg-muted space-y-1">
+                  <h3 className="font-medium mb-2">팀 조건</h3>
+                  {result.spacing && (
+                    <p className="text-sm">
+                      <span className="font-medium">간격 규칙: </span>
+                      {describeSpacingRules(result.spacing)}
+                    </p>
+                  )}
+                  {result.requirePairs.length > 0 && (
+                    <p className="text-sm">
+                      <span className="font-medium">같은 팀 필수: </span>
+                      {result.requirePairs
+                        .map(([a, b]) => `${a} & ${b}`)
+                        .join(', ')}
+                    </p>
+                  )}
+                  {result.avoidPairs.length > 0 && (
+                    <p className="text-sm">
+                      <span className="font-medium">같은 팀 금지: </span>
+                      {result.avoidPairs
+                        .map(([a, b]) => `${a} & ${b}`)
+                        .join(', ')}
+                    </p>
+                  )}
+                </div>
+              )}
+
+              {result.unavailability.length > 0 && (
+                <div className="p-4 rounded-md bg-muted">
+                  <h3 className="font-medium mb-2">열외</h3>
+                  {!result.isDateSeed && (
+                    <p className="text-xs text-muted-foreground mb-2">
+                      열외는 날짜 시드를 사용할 때만 적용됩니다.
+                    </p>
+                  )}
+                  <ul className="text-sm space-y-1">
+                    {result.unavailability.map((entry, entryIndex) => (
+                      <li key={entryIndex}>
+                        <span className="font-medium">{entry.person}</span>{' '}
+                        {dayjs(entry.startDate).format('MM/DD')}
+                        {entry.endDate !== entry.startDate &&
+                          ` ~ ${dayjs(entry.endDate).format('MM/DD')}`}
+                        {entry.meals.length > 0 &&
+                          ` (${entry.meals.join(', ')})`}
+                      </li>
+                    ))}
+                  </ul>
+                </div>
+              )}
+            </div>
+
+            {/* Schedule Grid - only show when planning a date range */}
+            {result.days && result.teams && (
+              <div className="space-y-3">
+                <h3 className="text-xl font-semibold">기간 일정표</h3>
+                <ScheduleGrid
+                  days={result.days}
+                  holidayCalendar={result.mealSchedule.holidayCalendar}
+                  teams={result.teams}
+                  highlightedPerson={highlightedPerson}
+                  onPersonClick={(person) =>
+                    setHighlightedPerson((current) =>
+                      current === person ? null : person,
+                    )
+                  }
+                />
+              </div>
+            )}
+
+            {/* Teams */}
+            {result.teams && (
+              <div className="space-y-6">
+                <div className="flex justify-between items-center">
+                  <h3 className="text-xl font-semibold">팀 구성</h3>
+                  {highlightedPerson && (
+                    <div className="flex items-center gap-2">
+                      <span className="text-sm font-medium bg-yellow-200 dark:bg-yellow-700 px-2 py-1 rounded">
+                        {highlightedPerson} 선택됨
+                      </span>
+                      <button
+                        onClick={() => setHighlightedPerson(null)}
+                        className="text-xs text-muted-foreground hover:text-foreground"
+                      >
+                        초기화
+                      </button>
+                    </div>
+                  )}
+                </div>
+                {swapSource && (
+                  <div className="flex items-center justify-between gap-2 p-3 rounded-md bg-blue-50 dark:bg-blue-950 text-sm">
+                    <span>
+                      교환할 상대를 다른 식사에서 고르세요: {swapSource.person}{' '}
+                      ({getRoundTitle(swapSource.round)})
+                    </span>
+                    <button
+                      onClick={() => setSwapSource(null)}
+                      className="text-xs text-muted-foreground hover:text-foreground"
+                    >
+                      취소
+                    </button>
+                  </div>
+                )}
+                {swapError && (
+                  <p className="text-sm text-destructive">{swapError}</p>
+                )}
+                {swaps.length > 0 && (
+                  <div className="p-3 bg-muted/50 rounded-md space-y-1">
+                    <h5 className="text-sm font-medium">당번 교환</h5>
+                    {swaps.map((swap, swapIndex) => (
+                      <div
+                        key={swapIndex}
+                        className="flex items-center gap-2 text-sm"
+                      >
+                        <span
+                          className={cn(
+                            constraintErrors[`swap-${swapIndex}`] &&
+                              'text-destructive line-through',
+                          )}
+                        >
+                          {formatSwap(swap)}
+                        </span>
+                        <button
+                          onClick={() =>
+                            updateSwaps(
+                              swaps.filter((_, index) => index !== swapIndex),
+                              `교환 취소: ${formatSwap(swap)}`,
+                            )
+                          }
+                          className="text-muted-foreground hover:text-foreground"
+                          aria-label="교환 취소"
+                        >
+                          <X className="h-4 w-4" />
+                        </button>
+                      </div>
+                    ))}
+                    {swaps.map(
+                      (_, swapIndex) =>
+                        constraintErrors[`swap-${swapIndex}`] && (
+                          <p
+                            key={swapIndex}
+                            className="text-xs text-destructive"
+                          >
+                            {constraintErrors[`swap-${swapIndex}`]}
+                          </p>
+                        ),
+                    )}
+                  </div>
+                )}
+                {editHistory.entries.length > 0 && (
+                  <EditLog
+                    history={editHistory}
+                    onUndo={() => stepHistory(undoEdit)}
+                    onRedo={() => stepHistory(redoEdit)}
+                  />
+                )}
+                {result.teams.map((team, index) => {
+                  const disabledForRound =
+                    disabledParticipants[index] || new Set();
+                  const roundError = constraintErrors[`round-${index}`];
+                  const roundSpacingViolations = spacingViolations.filter(
+                    (violation) => violation.round === index,
+                  );
+
+                  return (
+                    <div key={index} className="space-y-3">
+                      <div
+                        className={cn(
+                          'p-4 rounded-md bg-card border',
+                          roundError ? 'border-destructive' : 'border-border',
+                        )}
+                      >
+                        <h4 className="font-bold mb-3">
+                          {getRoundTitle(index)}
+                          {hasMixedTeamSizes && (
+                            <span className="ml-2 text-sm font-normal text-muted-foreground">
+                              {result.teamSizes[index]}명
+                            </span>
+                          )}
+                        </h4>
+                        {roundError && (
+                          <p className="text-sm text-destructive mb-2">
+                            {roundError}
+                          </p>
+                        )}
+                        {roundSpacingViolations.map((violation) => (
+                          <p
+                            key={violation.person}
+                            className="text-sm text-amber-600 dark:text-amber-400 mb-2"
+                          >
+                            간격 규칙 위반: {violation.person} (
+                            {violation.reason})
+                          </p>
+                        ))}
+                        <ul
+                          className={cn(
+                            'grid grid-cols-1 sm:grid-cols-2 gap-2',
+                            // Larger teams get an extra column
+                            team.length > 4 && 'sm:grid-cols-3',
+                          )}
+                        >
+                          {team.map((person, personIndex) => (
+                            <li
+                              key={personIndex}
+                              className="flex items-center gap-2"
+                            >
+                              <span className="w-6 h-6 flex items-center justify-center rounded-full bg-primary text-primary-foreground text-xs">
+                                {personIndex + 1}
+                              </span>
+                              <span
+                                className={cn(
+                                  'cursor-pointer hover:underline',
+                                  highlightedPerson === person &&
+                                    'bg-yellow-200 dark:bg-yellow-700 px-1 rounded',
+                                  roundSpacingViolations.some(
+                                    (violation) => violation.person === person,
+                                  ) && 'text-amber-600 dark:text-amber-400',
+                                  constraintErrors[person] &&
+                                    'text-destructive',
+                                )}
+                                onClick={() =>
+                                  setHighlightedPerson((current) =>
+                                    current === person ? null : person,
+                                  )
+                                }
+                              >
+                                {person}
+                              </span>
+                              <button
+                                onClick={() => selectForSwap(person, index)}
+                                className={cn(
+                                  'p-1 rounded text-muted-foreground hover:text-foreground hover:bg-muted',
+                                  swapSource?.round === index &&
+                                    swapSource.person === person &&
+                                    'bg-blue-100 text-blue-700 dark:bg-blue-900 dark:text-blue-200',
+                                )}
+                                title="다른 식사와 교환"
+                                aria-label={`${person} 교환`}
+                              >
+                                <ArrowLeftRight className="h-3.5 w-3.5" />
+                              </button>
+                            </li>
+                          ))}
+                        </ul>
+                      </div>
+
+                      {/* Participant Editor */}
+                      <div className="p-3 bg-muted/50 rounded-md">
+                        <h5 className="text-sm font-medium mb-2">
+                          참가자 편집
+                        </h5>
+                        <div className="flex flex-wrap gap-2">
+                          {result.pool.map((person) => {
+                            const isInTeam = team.includes(person);
+                            const isDisabled = disabledForRound.has(person);
+                            const isUnavailable =
+                              result.unavailable[index]?.includes(person) &&
+                              !isInTeam;
+                            const hasError = constraintErrors[person];
+                            const currentAppearances =
+                              result.appearances?.[person] || 0;
+
+                            return (
+                              <button
+                                key={person}
+                                onClick={() => toggleParticipant(person, index)}
+                                disabled={isUnavailable}
+                                className={cn(
+                                  'px-3 py-1.5 rounded-md text-sm font-medium transition-colors relative',
+                                  isDisabled || isUnavailable
+                                    ? 'bg-muted text-muted-foreground line-through'
+                                    : isInTeam
+                                      ? 'bg-primary text-primary-foreground'
+                                      : 'bg-background border border-border hover:bg-muted',
+                                  hasError && 'ring-2 ring-destructive',
+                                )}
+                              >
+                                {person}
+                                <span
+                                  className={cn(
+                                    'ml-1 text-xs',
+                                    isInTeam && 'text-primary-foreground/70',
+                                  )}
+                                >
+                                  ({isUnavailable ? '열외' : currentAppearances}
+                                  )
+                                </span>
+                              </button>
+                            );
+                          })}
+                        </div>
+                        {Object.entries(constraintErrors).map(
+                          ([key, error]) => {
+                            if (
+                              key.startsWith('round-') ||
+                              key.startsWith('swap-')
+                            )
+                              return null;
+                            return (
+                              <p
+                                key={key}
+                                className="text-xs text-destructive mt-2"
+                              >
+                                {key}: {error}
+                              </p>
+                            );
+                          },
+                        )}
+                      </div>
+                    </div>
+                  );
+                })}
+              </div>
+            )}
+
+            {/* Draw Audit - replays every step of the search */}
+            {result.teams && (
+              <div className="space-y-3">
+                <div className="flex justify-between items-center">
+                  <h3 className="text-xl font-semibold">추첨 과정</h3>
+                  <button
+                    onClick={toggleAudit}
+                    className="text-sm text-muted-foreground hover:text-foreground hover:underline"
+                  >
+                    {isAuditMode ? '숨기기' : '단계별로 보기'}
+                  </button>
+                </div>
+                {isAuditMode &&
+                  (trace ? (
+                    <>
+                      {isCustomized && (
+                        <p className="text-xs text-muted-foreground">
+                          수동 조정 전 원래 추첨 과정입니다.
+                        </p>
+                      )}
+                      <DrawAudit steps={trace} getRoundTitle={getRoundTitle} />
+                    </>
+                  ) : (
+                    <p className="text-sm text-muted-foreground">
+                      엔진 v{result.engineVersion} 링크는 추첨 과정을 단계별로
+                      보여줄 수 없습니다.
+                    </p>
+                  ))}
+              </div>
+            )}
+
+            {/* Export - records, calendar files and chat rooms */}
+            {result.teams && (
+              <div className="space-y-3">
+                <h3 className="text-xl font-semibold">내보내기</h3>
+                <div className="flex gap-2">
+                  {(['csv', 'json'] as const).map((format) => (
+                    <button
+                      key={format}
+                      onClick={() => exportRecord(format)}
+                      className={cn(
+                        'flex-1 py-2 px-4 rounded-md font-medium transition-colors flex items-center justify-center gap-2',
+                        'bg-secondary text-secondary-foreground hover:bg-secondary/80',
+                      )}
+                    >
+                      <Download className="h-5 w-5" />
+                      <span>{format.toUpperCase()} 기록</span>
+                    </button>
+                  ))}
+                </div>
+                <button
+                  onClick={() => window.print()}
+                  className={cn(
+                    'w-full py-2 px-4 rounded-md font-medium transition-colors flex items-center justify-center gap-2',
+                    'bg-secondary text-secondary-foreground hover:bg-secondary/80',
+                  )}
+                >
+                  <Printer className="h-5 w-5" />
+                  <span>게시판용 인쇄 (A4)</span>
+                </button>
+                <p className="text-xs text-muted-foreground">
+                  JSON 기록은 처음 화면의 기록 불러오기로 이 결과를 그대로
+                  복원할 수 있습니다.
+                </p>
+                {calendarDuties.length > 0 && (
+                  <CalendarExport
+                    duties={calendarDuties}
+                    pool={result.pool}
+                    uidPrefix={String(result.seed)}
+                    fileName={exportFileName}
+                  />
+                )}
+                <WebhookPublish params={searchParams.toString()} />
+              </div>
+            )}
+
+            {/* Appearances */}
+            {result.appearances && (
+              <div className="p-4 rounded-md bg-muted">
+                <h3 className="font-medium mb-3">참여 횟수</h3>
+                <div className="grid grid-cols-1 sm:grid-cols-2 md:grid-cols-3 gap-2">
+                  {Object.entries(result.appearances).map(([person, count]) => (
+                    <div
+                      key={person}
+                      className="flex items-center justify-between"
+                    >
+                      <span
+                        className={cn(
+                          'cursor-pointer hover:underline',
+                          highlightedPerson === person &&
+                            'bg-yellow-200 dark:bg-yellow-700 px-1 rounded',
+                          constraintErrors[person] && 'text-destructive',
+                        )}
+                        onClick={() =>
+                          setHighlightedPerson((current) =>
+                            current === person ? null : person,
+                          )
+                        }
+                      >
+                        {person}
+                      </span>
+                      <span
+                        className={cn(
+                          'font-medium',
+                          constraintErrors[person] && 'text-destructive',
+                        )}
+                      >
+                        {count}회
+                      </span>
+                    </div>
+                  ))}
+                </div>
+              </div>
+            )}
+          </>
+        )}
+
+        {/* Navigation Buttons */}
+        <div className="flex flex-col sm:flex-row gap-3 justify-center">
+          {/* Copy Link Button */}
+          <button
+            onClick={copyToClipboard}
+            className={cn(
+              'flex items-center justify-center gap-2 py-2 px-4 rounded-md font-medium transition-colors',
+              'bg-muted text-foreground hover:bg-muted/80',
+            )}
+          >
+            {copied ? (
+              <>
+                <Check className="h-5 w-5" />
+                <span>복사됨</span>
+              </>
+            ) : (
+              <>
+                <Copy className="h-5 w-5" />
+                <span>링크 복사</span>
+              </>
+            )}
+          </button>
+
+          {/* Date Navigation - only show if using date seed */}
+          {result.isDateSeed && adjacentDates && (
+            <div className="flex gap-2 w-full sm:w-auto">
+              <Link
+                href={`/result?${new URLSearchParams({
+                  ...navigationParams,
+                  seed: adjacentDates.previousDate,
+                  ...(adjacentDates.previousEndDate && {
+                    end: adjacentDates.previousEndDate,
+                  }),
+                })}`}
+                className={cn(
+                  'flex-1 sm:flex-none py-2 px-4 rounded-md font-medium transition-colors text-center',
+                  'bg-secondary text-secondary-foreground hover:bg-secondary/80',
+                )}
+              >
+                {result.days ? '이전 기간' : '이전 날짜'}
+              </Link>
+              <Link
+                href={`/result?${new URLSearchParams({
+                  ...navigationParams,
+                  seed: dayjs().format('YYYYMMDD'),
+                  ...(result.days && {
+                    end: dayjs()
+                      .add(adjacentDates.spanDays - 1, 'day')
+                      .format('YYYYMMDD'),
+                  }),
+                })}`}
+                className={cn(
+                  'flex-1 sm:flex-none py-2 px-4 rounded-md font-medium transition-colors text-center',
+                  'bg-secondary text-secondary-foreground hover:bg-secondary/80',
+                )}
+              >
+                오늘
+              </Link>
+              <Link
+                href={`/result?${new URLSearchParams({
+                  ...navigationParams,
+                  seed: adjacentDates.nextDate,
+                  ...(adjacentDates.nextEndDate && {
+                    end: adjacentDates.nextEndDate,
+                  }),
+                })}`}
+                className={cn(
+                  'flex-1 sm:flex-none py-2 px-4 rounded-md font-medium transition-colors text-center',
+                  'bg-secondary text-secondary-foreground hover:bg-secondary/80',
+                )}
+              >
+                {result.days ? '다음 기간' : '다음 날짜'}
+              </Link>
+            </div>
+          )}
+
+          <div className="flex gap-2 w-full sm:w-auto">
+            <button
+              onClick={handleEditClick}
+              disabled={isLoading}
+              className={cn(
+                'flex-1 py-2 px-4 rounded-md font-medium transition-colors relative',
+                'bg-primary text-primary-foreground hover:bg-primary/90 disabled:opacity-70',
+              )}
+            >
+              {isLoading ? (
+                <>
+                  <span className="opacity-0">설정 수정하기</span>
+                  <span className="absolute inset-0 flex items-center justify-center">
+                    <svg
+                      className="animate-spin h-5 w-5 text-white"
+                      xmlns="http://www.w3.org/2000/svg"
+                      fill="none"
+                      viewBox="0 0 24 24"
+                    >
+                      <circle
+                        className="opacity-25"
+                        cx="12"
+                        cy="12"
+                        r="10"
+                        stroke="currentColor"
+                        strokeWidth="4"
+                      ></circle>
+                      <path
+                        className="opacity-75"
+                        fill="currentColor"
+                        d="M4 12a8 8 0 018-8V0C5.373 0 0 5.373 0 12h4zm2 5.291A7.962 7.962 0 014 12H0c0 3.042 1.135 5.824 3 7.938l3-2.647z"
+                      ></path>
+                    </svg>
+                  </span>
+                </>
+              ) : (
+                '설정 수정하기'
+              )}
+            </button>
+            <Link
+              href={`/simulate?${new URLSearchParams(navigationParams)}`}
+              className={cn(
+                'flex-1 py-2 px-4 rounded-md font-medium transition-colors text-center',
+                'bg-secondary text-secondary-foreground hover:bg-secondary/80',
+              )}
+            >
+              시뮬레이션
+            </Link>
+            <Link
+              href="/"
+              className={cn(
+                'flex-1 py-2 px-4 rounded-md font-medium transition-colors text-center',
+                'bg-muted text-foreground hover:bg-muted/80',
+              )}
+            >
+              처음으로
+            </Link>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
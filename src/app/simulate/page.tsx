@@ -0,0 +1,351 @@
+'use client';
+
+import { useEffect, useState, Suspense, useCallback, useMemo } from 'react';
+import { useRouter, useSearchParams } from 'next/navigation';
+import Link from 'next/link';
+import { cn } from '@/lib/utils';
+import { drawFromParams, formatRoundTitle } from '@/lib/draw';
+import {
+  addSimulationRun,
+  createSimulationSummary,
+  getMeanAppearances,
+  type SimulationSummary,
+} from '@/lib/simulation';
+
+// Number of draws offered on the page
+const RUN_OPTIONS = [100, 1000, 5000];
+const DEFAULT_RUNS = 1000;
+const MAX_RUNS = 10000;
+
+// Milliseconds of drawing between screen updates
+const CHUNK_BUDGET_MS = 50;
+
+export default function SimulatePage() {
+  return (
+    <Suspense
+      fallback={
+        <div className="flex min-h-screen flex-col items-center p-6 bg-background">
+          <div className="w-full max-w-4xl space-y-8">
+            <div className="text-center">
+              <h1 className="text-3xl font-bold">식당청소 뺑뺑이</h1>
+              <div className="mt-2 h-8 w-48 mx-auto bg-muted animate-pulse rounded"></div>
+            </div>
+            <div className="p-4 rounded-md bg-card border border-border h-48 animate-pulse"></div>
+          </div>
+        </div>
+      }
+    >
+      <SimulateContent />
+    </Suspense>
+  );
+}
+
+// Parse the number of draws from URL
+const parseRuns = (runsParam: string | null) => {
+  const runs = runsParam ? parseInt(runsParam, 10) : DEFAULT_RUNS;
+  if (isNaN(runs) || runs < 1) return DEFAULT_RUNS;
+  return Math.min(runs, MAX_RUNS);
+};
+
+// Params that only change the teams of one seed: manual edits and the
+// fairness proof (the simulator replaces the seed anyway)
+const SEED_ONLY_PARAMS = [
+  'disabled',
+  'swap',
+  'secret',
+  'commit',
+  'contrib',
+  'audit',
+];
+
+// Format a share of draws as a percentage
+const formatPercent = (count: number, total: number) =>
+  total > 0 ? `${((count / total) * 100).toFixed(1)}%` : '-';
+
+function SimulateContent() {
+  const router = useRouter();
+  const searchParams = useSearchParams();
+  const runs = parseRuns(searchParams.get('runs'));
+
+  const [summary, setSummary] = useState<SimulationSummary | null>(null);
+  const [roundTitles, setRoundTitles] = useState<string[]>([]);
+  const [engineVersion, setEngineVersion] = useState<number | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  // Settings of the result link, without the page's own params
+  const settingsParams = useMemo(() => {
+    const params = new URLSearchParams(searchParams.toString());
+    ['runs', ...SEED_ONLY_PARAMS].forEach((name) => params.delete(name));
+    return params;
+  }, [searchParams]);
+
+  // Change the number of draws
+  const selectRuns = useCallback(
+    (value: number) => {
+      const newParams = new URLSearchParams(searchParams.toString());
+      newParams.set('runs', String(value));
+      router.replace(`/simulate?${newParams.toString()}`, { scroll: false });
+    },
+    [searchParams, router],
+  );
+
+  useEffect(() => {
+    setError(null);
+    setSummary(null);
+    setRoundTitles([]);
+
+    // Draw the link with seeds 1, 2, 3, ... through the same pipeline (and
+    // engine version) as the result page, in short chunks so the page stays
+    // responsive
+    let current: SimulationSummary | null = null;
+    let timer: ReturnType<typeof setTimeout> | null = null;
+
+    const runChunk = () => {
+      const chunkStart = performance.now();
+      while (
+        (current?.runs ?? 0) < runs &&
+        performance.now() - chunkStart < CHUNK_BUDGET_MS
+      ) {
+        const outcome = drawFromParams(settingsParams, {
+          drawSeed: (current?.runs ?? 0) + 1,
+        });
+
+        // Settings the link can't be drawn with fail every seed alike
+        if (outcome.error && !outcome.infeasible) {
+          setError(outcome.error);
+          return;
+        }
+
+        if (!current) {
+          current = createSimulationSummary(outcome.pool);
+          setEngineVersion(outcome.engineVersion);
+        }
+
+        // Every successful draw has the same rounds; title them once
+        const { teams } = outcome;
+        if (teams && current.runs === current.failures) {
+          setRoundTitles(
+            teams.map((_, index) => formatRoundTitle(outcome, index)),
+          );
+        }
+
+        addSimulationRun(
+          current,
+          teams ? { teams } : { error: outcome.error ?? '' },
+        );
+      }
+
+      if (current) setSummary({ ...current });
+      if (current && current.runs < runs) {
+        timer = setTimeout(runChunk, 0);
+      }
+    };
+
+    timer = setTimeout(runChunk, 0);
+    return () => {
+      if (timer) clearTimeout(timer);
+    };
+  }, [settingsParams, runs]);
+
+  const successes = summary ? summary.runs - summary.failures : 0;
+  const pool = summary ? Object.keys(summary.appearanceCounts) : [];
+
+  // Highest appearance count seen, for the distribution columns
+  const maxCount = summary
+    ? Math.max(
+        0,
+        ...Object.values(summary.appearanceCounts).map(
+          (counts) => counts.length - 1,
+        ),
+      )
+    : 0;
+
+  const errorEntries = summary
+    ? Object.entries(summary.errors).sort(([, a], [, b]) => b - a)
+    : [];
+
+  return (
+    <div className="flex min-h-screen flex-col items-center p-6 bg-background">
+      <div className="w-full max-w-4xl space-y-8">
+        <div className="text-center">
+          <h1 className="text-3xl font-bold">식당청소 뺑뺑이</h1>
+          <h2 className="mt-2 text-xl font-semibold">공정성 시뮬레이션</h2>
+          <p className="mt-2 text-sm text-muted-foreground">
+            현재 설정으로 시드만 바꿔 가며 이 링크의 엔진
+            {engineVersion !== null && `(v${engineVersion})`}으로 추첨을
+            반복합니다. 날짜 시드는 날짜만 유지하고, 수동 변경과 공정성 증명은
+            반영하지 않습니다.
+          </p>
+        </div>
+
+        <div className="flex flex-wrap items-center justify-center gap-2">
+          <span className="text-sm text-muted-foreground">반복 횟수</span>
+          {RUN_OPTIONS.map((value) => (
+            <button
+              key={value}
+              type="button"
+              onClick={() => selectRuns(value)}
+              className={cn(
+                'py-1 px-3 rounded-md text-sm font-medium transition-colors',
+                value === runs
+                  ? 'bg-primary text-primary-foreground'
+                  : 'bg-secondary text-secondary-foreground hover:bg-secondary/80',
+              )}
+            >
+              {value.toLocaleString()}회
+            </button>
+          ))}
+        </div>
+
+        {error && (
+          <div className="p-4 rounded-md bg-destructive/10 text-destructive">
+            {error}
+          </div>
+        )}
+
+        {summary && !error && (
+          <>
+            <div className="p-4 rounded-md bg-card border border-border space-y-3">
+              <div className="flex justify-between text-sm">
+                <span>
+                  {summary.runs.toLocaleString()} / {runs.toLocaleString()}회
+                  실행
+                </span>
+                <span
+                  className={cn(
+                    summary.failures > 0 && 'text-destructive font-medium',
+                  )}
+                >
+                  실패 {summary.failures.toLocaleString()}회 (
+                  {formatPercent(summary.failures, summary.runs)})
+                </span>
+              </div>
+              <div className="h-2 rounded bg-muted overflow-hidden">
+                <div
+                  className="h-full bg-primary transition-all"
+                  style={{ width: `${(summary.runs / runs) * 100}%` }}
+                ></div>
+              </div>
+              {errorEntries.length > 0 && (
+                <ul className="text-sm space-y-1">
+                  {errorEntries.map(([message, count]) => (
+                    <li key={message} className="flex justify-between gap-4">
+                      <span className="text-muted-foreground">{message}</span>
+                      <span className="shrink-0">
+                        {count.toLocaleString()}회
+                      </span>
+                    </li>
+                  ))}
+                </ul>
+              )}
+            </div>
+
+            <div className="space-y-2">
+              <h3 className="text-lg font-semibold">참여 횟수 분포</h3>
+              <p className="text-sm text-muted-foreground">
+                성공한 추첨 {successes.toLocaleString()}회 중 각 횟수만큼 뽑힌
+                비율입니다.
+              </p>
+              <div className="overflow-x-auto rounded-md border border-border">
+                <table className="w-full text-sm">
+                  <thead className="bg-muted">
+                    <tr>
+                      <th className="p-2 text-left">이름</th>
+                      <th className="p-2 text-right">평균</th>
+                      {Array.from({ length: maxCount + 1 }, (_, count) => (
+                        <th key={count} className="p-2 text-right">
+                          {count}회
+                        </th>
+                      ))}
+                    </tr>
+                  </thead>
+                  <tbody className="divide-y divide-border">
+                    {pool.map((person) => (
+                      <tr key={person}>
+                        <td className="p-2 font-medium">{person}</td>
+                        <td className="p-2 text-right">
+                          {getMeanAppearances(summary, person).toFixed(2)}
+                        </td>
+                        {Array.from({ length: maxCount + 1 }, (_, count) => (
+                          <td
+                            key={count}
+                            className="p-2 text-right tabular-nums"
+                          >
+                            {formatPercent(
+                              summary.appearanceCounts[person][count] || 0,
+                              successes,
+                            )}
+                          </td>
+                        ))}
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            </div>
+
+            <div className="space-y-2">
+              <h3 className="text-lg font-semibold">식사별 배정 확률</h3>
+              <p className="text-sm text-muted-foreground">
+                성공한 추첨에서 각 식사 팀에 들어간 비율입니다.
+              </p>
+              <div className="overflow-x-auto rounded-md border border-border">
+                <table className="w-full text-sm">
+                  <thead className="bg-muted">
+                    <tr>
+                      <th className="p-2 text-left">이름</th>
+                      {roundTitles.map((title, round) => (
+                        <th
+                          key={round}
+                          className="p-2 text-right whitespace-nowrap"
+                        >
+                          {title}
+                        </th>
+                      ))}
+                    </tr>
+                  </thead>
+                  <tbody className="divide-y divide-border">
+                    {pool.map((person) => (
+                      <tr key={person}>
+                        <td className="p-2 font-medium">{person}</td>
+                        {summary.roundCounts[person].map((count, round) => (
+                          <td
+                            key={round}
+                            className="p-2 text-right tabular-nums"
+                          >
+                            {formatPercent(count, successes)}
+                          </td>
+                        ))}
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            </div>
+          </>
+        )}
+
+        <div className="flex gap-2">
+          <Link
+            href={`/result?${settingsParams.toString()}`}
+            className={cn(
+              'flex-1 py-2 px-4 rounded-md font-medium transition-colors text-center',
+              'bg-primary text-primary-foreground hover:bg-primary/90',
+            )}
+          >
+            결과로 돌아가기
+          </Link>
+          <Link
+            href={`/?${settingsParams.toString()}`}
+            className={cn(
+              'flex-1 py-2 px-4 rounded-md font-medium transition-colors text-center',
+              'bg-muted text-foreground hover:bg-muted/80',
+            )}
+          >
+            설정 수정하기
+          </Link>
+        </div>
+      </div>
+    </div>
+  );
+}
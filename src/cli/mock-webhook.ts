@@ -0,0 +1,52 @@
+/**
+ * 식당청소 뺑뺑이 (Dining Hall Cleaning Duty Team Randomizer)
+ * Local stand-in for a chat webhook: prints every message it receives
+ */
+import { createServer } from 'http';
+import { parseArgs } from 'util';
+
+const USAGE = `사용법: pnpm webhook:mock [--port 4000] [--status 200]
+
+WEBHOOK_URL=http://localhost:4000 으로 앱을 실행하면 채팅방 대신 이 서버가
+메시지를 받아 출력합니다. --status로 실패 응답을 흉내 낼 수 있습니다.`;
+
+function main() {
+  const { values } = parseArgs({
+    args: process.argv.slice(2),
+    options: {
+      port: { type: 'string', default: '4000' },
+      status: { type: 'string', default: '200' },
+      help: { type: 'boolean', short: 'h' },
+    },
+  });
+
+  if (values.help) {
+    console.log(USAGE);
+    return;
+  }
+
+  const port = parseInt(values.port, 10);
+  const status = parseInt(values.status, 10);
+
+  createServer((request, response) => {
+    let body = '';
+    request.setEncoding('utf8');
+    request.on('data', (chunk) => (body += chunk));
+    request.on('end', () => {
+      console.log(`--- ${request.method} ${request.url}`);
+      try {
+        const payload = JSON.parse(body);
+        console.log(payload.text ?? payload.content ?? payload);
+      } catch {
+        console.log(body);
+      }
+
+      response.writeHead(status, { 'Content-Type': 'text/plain' });
+      response.end(status < 400 ? 'ok' : 'error');
+    });
+  }).listen(port, () => {
+    console.log(`웹훅 모의 서버: http://localhost:${port} (응답 ${status})`);
+  });
+}
+
+main();
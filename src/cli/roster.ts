@@ -0,0 +1,317 @@
+/**
+ * 식당청소 뺑뺑이 (Dining Hall Cleaning Duty Team Randomizer)
+ * Command-line roster: draws the same teams as the web result page
+ */
+import { readFileSync } from 'fs';
+import { parseArgs } from 'util';
+import { drawFromParams, formatRoundTitle, migrateParams } from '../lib/draw';
+import {
+  formatPool,
+  parsePool,
+  FORMAT_PARAM,
+  LATEST_FORMAT_VERSION,
+} from '../lib/encoding';
+import { LATEST_ENGINE_VERSION } from '../lib/engine';
+import {
+  HOLIDAY_CALENDAR_PARAM,
+  LATEST_HOLIDAY_CALENDAR,
+} from '../lib/holidays';
+import { expandParams } from '../lib/links';
+import {
+  createResultRecord,
+  formatRecordCsv,
+  formatRecordJson,
+} from '../lib/records';
+
+// ===== OPTIONS =====
+
+const USAGE = `사용법: pnpm roster [옵션] [참가자 파일 | -]
+
+참가자 명단은 파일, 표준 입력 또는 --link의 pool에서 읽습니다
+(쉼표 또는 줄바꿈으로 구분).
+
+옵션:
+  --size <n>           팀 인원 (식사별로 다르면 2,3,2)
+  --rounds <n>         식사 횟수
+  --min <n>            최소 배정 횟수
+  --max <n>            최대 배정 횟수
+  --seed <값>          시드 (날짜 YYYYMMDD, 정수 또는 임의의 문자열)
+  --end <YYYYMMDD>     종료 날짜 (기간 배정)
+  --avoid <쌍>         같은 팀 금지 (예: 가,나;다,라)
+  --require <쌍>       같은 팀 필수
+  --unavailable <값>   열외
+  --gap <n>            최소 간격
+  --per-day <n>        하루 최대 횟수
+  --cross-day          날짜 간 적용
+  --meals <값>         식사 일정
+  --contrib <값>       함께 정하는 시드
+  --secret <값>        공정성 증명 비밀값
+  --disabled <값>      수동 제외 (예: round1:가,나;round2:다)
+  --swap <값>          당번 교환 (예: round1:가,round3:나)
+  --v <n>              엔진 버전 (기본: 최신 v${LATEST_ENGINE_VERSION})
+  --link <url>         결과 링크의 설정을 그대로 사용
+  --format <형식>      table, csv, json (기본: table)
+  -h, --help           도움말`;
+
+// CLI options and the result link params they set
+const PARAM_OPTIONS: Record<string, string> = {
+  size: 'size',
+  rounds: 'rounds',
+  min: 'min',
+  max: 'max',
+  seed: 'seed',
+  end: 'end',
+  avoid: 'avoid',
+  require: 'require',
+  unavailable: 'unavailable',
+  gap: 'gap',
+  'per-day': 'perDay',
+  meals: 'meals',
+  contrib: 'contrib',
+  secret: 'secret',
+  disabled: 'disabled',
+  swap: 'swap',
+  v: 'v',
+};
+
+const FORMATS = ['table', 'csv', 'json'] as const;
+type Format = (typeof FORMATS)[number];
+
+// ===== INPUT =====
+
+/**
+ * Read the participant pool from a file or stdin
+ * @param source - File path, `-` for stdin, or undefined
+ * @param hasLinkPool - Whether the link already has a pool
+ * @returns `pool` param in the latest format, or null when there is nothing
+ *   to read
+ */
+function readPool(
+  source: string | undefined,
+  hasLinkPool: boolean,
+): string | null {
+  let text: string;
+  if (source !== undefined) {
+    text = readFileSync(source === '-' ? 0 : source, 'utf8');
+  } else {
+    // Without a file, read stdin only when something may be piped in and the
+    // link has no pool; cron and CI leave a non-blocking stdin with nothing
+    // to read
+    if (hasLinkPool || process.stdin.isTTY) return null;
+    try {
+      text = readFileSync(0, 'utf8');
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'EAGAIN') return null;
+      throw error;
+    }
+  }
+
+  // A name per line or comma-separated, with `\,` for commas in names
+  const names = parsePool(text.split('\n').join(','), LATEST_FORMAT_VERSION);
+
+  return names.length > 0 ? formatPool(names) : null;
+}
+
+/**
+ * Build result link params from the command line
+ * @param argv - Arguments after the script name
+ * @returns Params, output format and help flag, or error message
+ */
+function parseCommandLine(argv: string[]):
+  | {
+      searchParams: URLSearchParams;
+      poolSource: string | undefined;
+      format: Format;
+      help: boolean;
+    }
+  | { error: string } {
+  let parsed;
+  try {
+    parsed = parseArgs({
+      args: argv,
+      allowPositionals: true,
+      options: {
+        ...Object.fromEntries(
+          Object.keys(PARAM_OPTIONS).map((name) => [
+            name,
+            { type: 'string' as const },
+          ]),
+        ),
+        'cross-day': { type: 'boolean' },
+        link: { type: 'string' },
+        format: { type: 'string', default: 'table' },
+        help: { type: 'boolean', short: 'h' },
+      },
+    });
+  } catch (error) {
+    return { error: (error as Error).message };
+  }
+
+  const { values, positionals } = parsed;
+  const format = values.format as Format;
+
+  if (!FORMATS.includes(format)) {
+    return {
+      error: `지원하지 않는 출력 형식입니다: ${format} (${FORMATS.join(', ')})`,
+    };
+  }
+  if (positionals.length > 1) {
+    return { error: '참가자 파일은 하나만 지정할 수 있습니다.' };
+  }
+
+  // Start from the link's settings; options override them
+  let searchParams: URLSearchParams;
+  if (typeof values.link === 'string') {
+    try {
+      searchParams = new URL(values.link, 'http://localhost').searchParams;
+    } catch {
+      return { error: `결과 링크를 읽을 수 없습니다: ${values.link}` };
+    }
+  } else {
+    searchParams = new URLSearchParams();
+    // New rosters are drawn with the latest engine, name format and holidays,
+    // as on the home page
+    searchParams.set('v', String(LATEST_ENGINE_VERSION));
+    searchParams.set(FORMAT_PARAM, String(LATEST_FORMAT_VERSION));
+    searchParams.set(HOLIDAY_CALENDAR_PARAM, String(LATEST_HOLIDAY_CALENDAR));
+  }
+
+  Object.entries(PARAM_OPTIONS).forEach(([option, param]) => {
+    const value = (values as Record<string, unknown>)[option];
+    if (typeof value === 'string') searchParams.set(param, value);
+  });
+  if (values['cross-day']) searchParams.set('crossDay', '1');
+
+  return {
+    searchParams,
+    poolSource: positionals[0],
+    format,
+    help: Boolean(values.help),
+  };
+}
+
+// ===== OUTPUT =====
+
+// Terminal columns of a string; Hangul and other wide characters take two
+const displayWidth = (text: string) =>
+  Array.from(text).reduce(
+    (width, char) =>
+      width +
+      (/[\u1100-\u115f\u2e80-\ua4cf\uac00-\ud7a3\uf900-\ufaff\uff00-\uff60\uffe0-\uffe6]/.test(
+        char,
+      )
+        ? 2
+        : 1),
+    0,
+  );
+
+const padEnd = (text: string, width: number) =>
+  text + ' '.repeat(Math.max(0, width - displayWidth(text)));
+
+/**
+ * Format the teams as a plain-text table
+ * @param rows - Round titles and members
+ * @returns Table with a line per round
+ */
+function formatTable(rows: { title: string; members: string[] }[]): string {
+  const titleWidth = Math.max(...rows.map(({ title }) => displayWidth(title)));
+
+  return rows
+    .map(
+      ({ title, members }) =>
+        `${padEnd(title, titleWidth)}  ${members.join(', ')}`,
+    )
+    .join('\n');
+}
+
+// ===== MAIN =====
+
+async function main(): Promise<number> {
+  const commandLine = parseCommandLine(process.argv.slice(2));
+
+  if ('error' in commandLine) {
+    console.error(commandLine.error);
+    console.error(USAGE);
+    return 1;
+  }
+
+  const { format, help } = commandLine;
+  if (help) {
+    console.log(USAGE);
+    return 0;
+  }
+
+  // Compact links carry their settings compressed; options still override them
+  const expanded = await expandParams(commandLine.searchParams);
+  if ('error' in expanded) {
+    console.error(expanded.error);
+    return 1;
+  }
+
+  // Older links are read in the current name format, like the pool file
+  const searchParams = migrateParams(expanded);
+
+  let pool: string | null;
+  try {
+    pool = readPool(commandLine.poolSource, Boolean(searchParams.get('pool')));
+  } catch (error) {
+    console.error(
+      `참가자 명단을 읽을 수 없습니다: ${(error as Error).message}`,
+    );
+    return 1;
+  }
+  if (pool) searchParams.set('pool', pool);
+
+  const outcome = drawFromParams(searchParams);
+  if (outcome.error) {
+    console.error(outcome.error);
+    return 1;
+  }
+
+  const record = createResultRecord(searchParams, outcome);
+  if (!record) {
+    console.error(
+      '공정성 증명 비밀값이 공개되지 않아 팀을 보여줄 수 없습니다.',
+    );
+    return 1;
+  }
+
+  if (format === 'csv') {
+    process.stdout.write(formatRecordCsv(record));
+  } else if (format === 'json') {
+    process.stdout.write(formatRecordJson(record));
+  } else {
+    console.log(`시드: ${record.seedText} (엔진 v${record.engineVersion})`);
+    console.log(
+      formatTable(
+        record.rounds.map(({ members }, index) => ({
+          title: formatRoundTitle(outcome, index),
+          members,
+        })),
+      ),
+    );
+    console.log();
+    console.log(
+      formatTable(
+        Object.entries(record.appearances).map(([person, count]) => ({
+          title: person,
+          members: [`${count}회`],
+        })),
+      ),
+    );
+  }
+
+  // Broken limits after manual edits, shown as warnings on the result page
+  [
+    ...Object.values(outcome.constraintErrors),
+    ...outcome.spacingViolations.map(
+      ({ person, round, reason }) => `${person} (${round + 1}번째): ${reason}`,
+    ),
+  ].forEach((message) => console.error(`경고: ${message}`));
+
+  return 0;
+}
+
+main().then((exitCode) => {
+  process.exitCode = exitCode;
+});
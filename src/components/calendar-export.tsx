@@ -0,0 +1,107 @@
+'use client';
+
+import { useState } from 'react';
+import { CalendarPlus } from 'lucide-react';
+import { cn, downloadFile } from '@/lib/utils';
+import {
+  buildCalendar,
+  formatMealTimes,
+  parseMealTimes,
+  DEFAULT_MEAL_TIMES,
+  type CalendarDuty,
+} from '@/lib/calendar';
+
+interface CalendarExportProps {
+  duties: CalendarDuty[];
+  pool: string[];
+  uidPrefix: string;
+  fileName: string; // Without extension
+}
+
+/**
+ * Download the duties as an .ics file for phone calendars
+ */
+export function CalendarExport({
+  duties,
+  pool,
+  uidPrefix,
+  fileName,
+}: CalendarExportProps) {
+  const [person, setPerson] = useState('');
+  const [timesText, setTimesText] = useState(
+    formatMealTimes(DEFAULT_MEAL_TIMES),
+  );
+  const [error, setError] = useState<string | null>(null);
+
+  const handleDownload = () => {
+    const mealTimes = parseMealTimes(timesText);
+    if ('error' in mealTimes) {
+      setError(mealTimes.error);
+      return;
+    }
+    setError(null);
+
+    const calendar = buildCalendar(duties, mealTimes, {
+      person: person || null,
+      uidPrefix,
+    });
+
+    downloadFile(
+      calendar,
+      `${fileName}${person ? `-${person}` : ''}.ics`,
+      'text/calendar;charset=utf-8',
+    );
+  };
+
+  return (
+    <div className="space-y-3">
+      <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+        <div className="space-y-2">
+          <label htmlFor="calendarPerson" className="block text-sm font-medium">
+            대상
+          </label>
+          <select
+            id="calendarPerson"
+            value={person}
+            onChange={(e) => setPerson(e.target.value)}
+            className="w-full rounded-md border border-input bg-background px-3 py-2 text-sm"
+          >
+            <option value="">전체 팀</option>
+            {pool.map((name) => (
+              <option key={name} value={name}>
+                {name}
+              </option>
+            ))}
+          </select>
+        </div>
+        <div className="space-y-2">
+          <label htmlFor="calendarTimes" className="block text-sm font-medium">
+            식사 시간
+          </label>
+          <textarea
+            id="calendarTimes"
+            value={timesText}
+            onChange={(e) => setTimesText(e.target.value)}
+            rows={4}
+            className="w-full rounded-md border border-input bg-background px-3 py-2 text-sm"
+          />
+          <p className="text-xs text-muted-foreground">
+            한 줄에 하나씩 식사=시작~끝. 시간이 없는 식사는 종일 일정으로
+            들어갑니다.
+          </p>
+        </div>
+      </div>
+      {error && <p className="text-sm text-destructive">{error}</p>}
+      <button
+        onClick={handleDownload}
+        className={cn(
+          'w-full py-2 px-4 rounded-md font-medium transition-colors flex items-center justify-center gap-2',
+          'bg-secondary text-secondary-foreground hover:bg-secondary/80',
+        )}
+      >
+        <CalendarPlus className="h-5 w-5" />
+        <span>캘린더 파일(.ics) 받기</span>
+      </button>
+    </div>
+  );
+}
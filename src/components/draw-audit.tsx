@@ -0,0 +1,83 @@
+'use client';
+
+import { cn } from '@/lib/utils';
+import type { DrawStep } from '@/lib/randomizer';
+
+interface DrawAuditProps {
+  steps: DrawStep[];
+  getRoundTitle: (round: number) => string;
+}
+
+// Join a required group's members the way pair constraints are shown
+const formatGroup = (group: string[]) => group.join(' & ');
+
+const formatGroups = (groups: string[][]) =>
+  groups.length > 0 ? groups.map(formatGroup).join(', ') : '없음';
+
+/**
+ * Step-by-step replay of a draw, so anyone can check the result by hand
+ */
+export function DrawAudit({ steps, getRoundTitle }: DrawAuditProps) {
+  const pickCount = steps.filter((step) => step.type === 'pick').length;
+  const undoCount = steps.filter((step) => step.type === 'undo').length;
+  const rejectCount = steps.filter((step) => step.type === 'reject').length;
+  const fewestFirst = steps.some(
+    (step) => step.type === 'order' && step.fewestFirst,
+  );
+  const orderLabel = fewestFirst ? '섞은 뒤 출현 횟수 적은 순' : '섞은 순서';
+
+  return (
+    <div className="space-y-3">
+      <p className="text-sm text-muted-foreground">
+        라운드마다 최소 식청 횟수를 못 채운 사람을 먼저, 나머지를 그 뒤에 섞어
+        {fewestFirst && ' 지금까지 출현 횟수가 적은 사람부터 오도록'} 후보
+        순서를 정하고, 앞에서부터 조건에 맞는 후보를 뽑습니다. 뽑았을 때 남은
+        자리를 조건대로 채울 수 없으면 건너뛰고, 막다른 길에 이르면 이전 선택을
+        되돌립니다. (선택 {pickCount}번, 건너뜀 {rejectCount}번, 되돌림{' '}
+        {undoCount}번)
+      </p>
+      <ol className="max-h-[480px] overflow-y-auto rounded-md border border-border divide-y divide-border text-sm">
+        {steps.map((step, index) => (
+          <li
+            key={index}
+            className={cn(
+              'p-2',
+              step.type === 'order' && 'bg-muted',
+              step.type === 'undo' && 'text-amber-600 dark:text-amber-400',
+              step.type === 'reject' && 'text-muted-foreground',
+            )}
+          >
+            <span className="font-medium">{getRoundTitle(step.round)}</span>
+            {step.type === 'order' && (
+              <>
+                {' '}
+                후보 순서
+                <div className="text-xs mt-1">
+                  최소 횟수 미달 ({orderLabel}):{' '}
+                  {formatGroups(step.underMinimum)}
+                </div>
+                <div className="text-xs">
+                  나머지 ({orderLabel}): {formatGroups(step.others)}
+                </div>
+              </>
+            )}
+            {step.type === 'pick' && (
+              <>
+                {' '}
+                선택:{' '}
+                <span className="font-bold">{formatGroup(step.group)}</span>
+                <div className="text-xs mt-1 text-muted-foreground">
+                  가능한 후보: {formatGroups(step.eligible)}
+                </div>
+              </>
+            )}
+            {step.type === 'reject' &&
+              ` 건너뜀: ${formatGroup(step.group)} (뽑으면 남은 자리를 조건대로 채울 수 없음)`}
+            {step.type === 'undo' &&
+              ` 되돌림: ${formatGroup(step.group)} (이후 자리를 채울 수 없어 선택 취소)`}
+          </li>
+        ))}
+      </ol>
+    </div>
+  );
+}
@@ -0,0 +1,66 @@
+'use client';
+
+import { Redo2, Undo2 } from 'lucide-react';
+import { cn } from '@/lib/utils';
+import { type EditHistory } from '@/lib/history';
+
+interface EditLogProps {
+  history: EditHistory;
+  onUndo: () => void;
+  onRedo: () => void;
+}
+
+/**
+ * Manual edits made on the result page, with undo and redo
+ */
+export function EditLog({ history, onUndo, onRedo }: EditLogProps) {
+  const { entries, position } = history;
+
+  return (
+    <div className="p-3 bg-muted/50 rounded-md space-y-2">
+      <div className="flex items-center justify-between">
+        <h5 className="text-sm font-medium">편집 기록</h5>
+        <div className="flex items-center gap-1">
+          <button
+            onClick={onUndo}
+            disabled={position === 0}
+            className="p-1 rounded text-muted-foreground hover:text-foreground hover:bg-muted disabled:opacity-40"
+            title="실행 취소 (Ctrl+Z)"
+            aria-label="실행 취소"
+          >
+            <Undo2 className="h-4 w-4" />
+          </button>
+          <button
+            onClick={onRedo}
+            disabled={position >= entries.length}
+            className="p-1 rounded text-muted-foreground hover:text-foreground hover:bg-muted disabled:opacity-40"
+            title="다시 실행 (Ctrl+Shift+Z)"
+            aria-label="다시 실행"
+          >
+            <Redo2 className="h-4 w-4" />
+          </button>
+        </div>
+      </div>
+      <ol className="space-y-1 text-sm">
+        {entries.map((entry, index) => (
+          <li
+            key={index}
+            className={cn(
+              index >= position && 'text-muted-foreground line-through',
+            )}
+          >
+            <span className="font-medium">{entry.label}</span>
+            {entry.changes.map((change) => (
+              <div key={change} className="text-xs text-muted-foreground">
+                {change}
+              </div>
+            ))}
+          </li>
+        ))}
+      </ol>
+      <p className="text-xs text-muted-foreground">
+        Ctrl+Z(⌘Z)로 되돌리고 Ctrl+Shift+Z(⌘⇧Z)로 다시 실행합니다.
+      </p>
+    </div>
+  );
+}
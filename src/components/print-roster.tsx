@@ -0,0 +1,105 @@
+'use client';
+
+import dayjs from 'dayjs';
+import { formatDateForDisplay, type ScheduleDay } from '@/lib/randomizer';
+
+type DisplayDate = ReturnType<typeof formatDateForDisplay>;
+
+interface PrintRosterProps {
+  date: DisplayDate | null; // First day (date seeds only)
+  endDate: DisplayDate | null; // Last day of a range
+  days: ScheduleDay[] | null; // Days of a range
+  holidayCalendar: number; // Holiday calendar version of the link
+  teams: string[][]; // Flattened teams (after edits)
+  getRoundTitle: (round: number) => string;
+}
+
+// Date with its weekday and holiday, as in the result page header
+const formatDateHeader = ({ dateText, dayText, holidayName }: DisplayDate) =>
+  `${dateText} (${dayText})${holidayName ? ` ${holidayName}` : ''}`;
+
+/**
+ * A4 roster for the dining hall board; only rendered when printing
+ */
+export function PrintRoster({
+  date,
+  endDate,
+  days,
+  holidayCalendar,
+  teams,
+  getRoundTitle,
+}: PrintRosterProps) {
+  const maxRounds = days ? Math.max(...days.map((day) => day.rounds)) : 0;
+
+  return (
+    <div className="hidden print:block bg-white text-black">
+      <div className="text-center mb-6">
+        <h1 className="text-3xl font-bold">식당청소 당번표</h1>
+        {date && (
+          <h2 className="mt-2 text-2xl font-semibold">
+            {formatDateHeader(date)}
+            {endDate && ` ~ ${formatDateHeader(endDate)}`}
+          </h2>
+        )}
+      </div>
+
+      {days ? (
+        <table className="w-full border-collapse text-base">
+          <tbody>
+            {days.map((day) => {
+              const { dayText, holidayName } = formatDateForDisplay(
+                day.date,
+                holidayCalendar,
+              );
+
+              return (
+                <tr key={day.offset} className="break-inside-avoid">
+                  <th className="border border-black p-2 text-left align-top whitespace-nowrap">
+                    {dayjs(day.date).format('MM/DD')} ({dayText})
+                    {holidayName && (
+                      <div className="text-xs font-normal">{holidayName}</div>
+                    )}
+                  </th>
+                  {Array.from({ length: maxRounds }, (_, roundIndex) => (
+                    <td
+                      key={roundIndex}
+                      className="border border-black p-2 align-top"
+                    >
+                      {roundIndex < day.rounds && (
+                        <>
+                          <div className="text-sm font-semibold">
+                            {day.meals[roundIndex]}
+                          </div>
+                          <div>{teams[day.offset + roundIndex].join(', ')}</div>
+                        </>
+                      )}
+                    </td>
+                  ))}
+                </tr>
+              );
+            })}
+          </tbody>
+        </table>
+      ) : (
+        <table className="w-full border-collapse">
+          <tbody>
+            {teams.map((team, index) => (
+              <tr key={index} className="break-inside-avoid">
+                <th className="w-1/4 border-2 border-black p-4 text-left align-middle text-2xl font-bold whitespace-nowrap">
+                  {getRoundTitle(index)}
+                </th>
+                <td className="border-2 border-black p-4 text-3xl font-semibold">
+                  <div className="flex flex-wrap gap-x-6 gap-y-2">
+                    {team.map((person) => (
+                      <span key={person}>{person}</span>
+                    ))}
+                  </div>
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,95 @@
+'use client';
+
+import dayjs from 'dayjs';
+import { cn } from '@/lib/utils';
+import { formatDateForDisplay, type ScheduleDay } from '@/lib/randomizer';
+
+interface ScheduleGridProps {
+  days: ScheduleDay[];
+  holidayCalendar: number; // Holiday calendar version of the link
+  teams: string[][]; // Flattened teams for the whole range (after edits)
+  highlightedPerson: string | null;
+  onPersonClick: (person: string) => void;
+}
+
+/**
+ * Table of every day and meal in a multi-day schedule
+ */
+export function ScheduleGrid({
+  days,
+  holidayCalendar,
+  teams,
+  highlightedPerson,
+  onPersonClick,
+}: ScheduleGridProps) {
+  const maxRounds = Math.max(...days.map((day) => day.rounds));
+
+  return (
+    <div className="overflow-x-auto rounded-md border border-border">
+      <table className="w-full text-sm">
+        <tbody>
+          {days.map((day) => {
+            const { dayText, dayColor, holidayName } = formatDateForDisplay(
+              day.date,
+              holidayCalendar,
+            );
+
+            return (
+              <tr
+                key={day.offset}
+                className="border-b border-border last:border-b-0"
+              >
+                <th className="p-2 text-left align-top whitespace-nowrap bg-muted font-medium">
+                  {dayjs(day.date).format('MM/DD')} (
+                  <span className={dayColor}>{dayText}</span>)
+                  {holidayName && (
+                    <div className="text-xs font-normal text-red-500">
+                      {holidayName}
+                    </div>
+                  )}
+                </th>
+                {Array.from({ length: maxRounds }, (_, roundIndex) => {
+                  const team =
+                    roundIndex < day.rounds
+                      ? teams[day.offset + roundIndex]
+                      : null;
+
+                  return (
+                    <td
+                      key={roundIndex}
+                      className="p-2 align-top border-l border-border"
+                    >
+                      {team && (
+                        <>
+                          <div className="text-xs text-muted-foreground mb-1">
+                            {day.meals[roundIndex]}
+                          </div>
+                          <ul className="space-y-0.5">
+                            {team.map((person) => (
+                              <li key={person}>
+                                <span
+                                  className={cn(
+                                    'cursor-pointer hover:underline whitespace-nowrap',
+                                    highlightedPerson === person &&
+                                      'bg-yellow-200 dark:bg-yellow-700 px-1 rounded',
+                                  )}
+                                  onClick={() => onPersonClick(person)}
+                                >
+                                  {person}
+                                </span>
+                              </li>
+                            ))}
+                          </ul>
+                        </>
+                      )}
+                    </td>
+                  );
+                })}
+              </tr>
+            );
+          })}
+        </tbody>
+      </table>
+    </div>
+  );
+}
@@ -0,0 +1,101 @@
+'use client';
+
+import { useState } from 'react';
+import { Send } from 'lucide-react';
+import { cn } from '@/lib/utils';
+import { DEFAULT_WEBHOOK_TEMPLATE } from '@/lib/webhook';
+
+interface WebhookPublishProps {
+  params: string; // Params of the result link
+}
+
+/**
+ * Post the teams on screen to the chat room's webhook
+ */
+export function WebhookPublish({ params }: WebhookPublishProps) {
+  const [template, setTemplate] = useState(DEFAULT_WEBHOOK_TEMPLATE);
+  const [secret, setSecret] = useState('');
+  const [status, setStatus] = useState<
+    { sending: true } | { sent: boolean; message: string } | null
+  >(null);
+
+  const handlePublish = async () => {
+    setStatus({ sending: true });
+    try {
+      const response = await fetch('/api/webhook', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          Authorization: `Bearer ${secret}`,
+        },
+        body: JSON.stringify({ params, template }),
+      });
+      const body = await response.json();
+      setStatus(
+        response.ok
+          ? { sent: true, message: '채팅방에 보냈습니다.' }
+          : { sent: false, message: body.error.message },
+      );
+    } catch {
+      setStatus({ sent: false, message: '서버에 연결할 수 없습니다.' });
+    }
+  };
+
+  return (
+    <div className="space-y-3">
+      <div className="space-y-2">
+        <label htmlFor="webhookTemplate" className="block text-sm font-medium">
+          채팅방 메시지
+        </label>
+        <textarea
+          id="webhookTemplate"
+          value={template}
+          onChange={(e) => setTemplate(e.target.value)}
+          rows={4}
+          className="w-full rounded-md border border-input bg-background px-3 py-2 text-sm"
+        />
+        <p className="text-xs text-muted-foreground">
+          {'{title}'} 날짜, {'{teams}'} 식사별 팀원, {'{link}'} 결과 링크,{' '}
+          {'{seed}'} 시드로 바뀝니다. {'{teams}'}는 꼭 넣어야 합니다.
+        </p>
+      </div>
+      <div className="space-y-2">
+        <label htmlFor="webhookSecret" className="block text-sm font-medium">
+          전송 비밀값
+        </label>
+        <input
+          id="webhookSecret"
+          type="password"
+          value={secret}
+          onChange={(e) => setSecret(e.target.value)}
+          autoComplete="off"
+          className="w-full rounded-md border border-input bg-background px-3 py-2 text-sm"
+        />
+        <p className="text-xs text-muted-foreground">
+          서버에 설정된 WEBHOOK_SECRET을 아는 사람만 보낼 수 있습니다.
+        </p>
+      </div>
+      {status && 'message' in status && (
+        <p
+          className={cn(
+            'text-sm',
+            status.sent ? 'text-muted-foreground' : 'text-destructive',
+          )}
+        >
+          {status.message}
+        </p>
+      )}
+      <button
+        onClick={handlePublish}
+        disabled={!secret || (status !== null && 'sending' in status)}
+        className={cn(
+          'w-full py-2 px-4 rounded-md font-medium transition-colors flex items-center justify-center gap-2',
+          'bg-secondary text-secondary-foreground hover:bg-secondary/80 disabled:opacity-50',
+        )}
+      >
+        <Send className="h-5 w-5" />
+        <span>채팅방에 보내기</span>
+      </button>
+    </div>
+  );
+}
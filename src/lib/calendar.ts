@@ -0,0 +1,203 @@
+/**
+ * 식당청소 뺑뺑이 (Dining Hall Cleaning Duty Team Randomizer)
+ * iCalendar (.ics) export of duty assignments
+ */
+import dayjs from 'dayjs';
+
+// ===== TYPES =====
+
+/**
+ * One meal duty to put in the calendar
+ */
+export interface CalendarDuty {
+  date: Date; // Day of the meal
+  meal: string; // Meal label (e.g. 아침)
+  team: string[]; // Members on duty
+}
+
+/**
+ * Start and end of a meal in minutes after midnight
+ */
+export interface MealTime {
+  start: number;
+  end: number; // Earlier than start when the meal runs past midnight
+}
+
+// ===== MEAL TIMES =====
+
+// Times used for meals not listed by the user
+export const DEFAULT_MEAL_TIMES = new Map<string, MealTime>([
+  ['아침', { start: 7 * 60, end: 8 * 60 }],
+  ['브런치', { start: 10 * 60, end: 11 * 60 }],
+  ['점심', { start: 12 * 60, end: 13 * 60 }],
+  ['저녁', { start: 18 * 60, end: 19 * 60 }],
+]);
+
+// Format minutes after midnight as HH:mm
+const formatTime = (minutes: number) =>
+  `${String(Math.floor(minutes / 60)).padStart(2, '0')}:${String(
+    minutes % 60,
+  ).padStart(2, '0')}`;
+
+/**
+ * Format meal times for the export form
+ * @param mealTimes - Times by meal label
+ * @returns One `meal=HH:mm~HH:mm` entry per line
+ */
+export function formatMealTimes(mealTimes: Map<string, MealTime>): string {
+  return Array.from(mealTimes)
+    .map(
+      ([meal, { start, end }]) =>
+        `${meal}=${formatTime(start)}~${formatTime(end)}`,
+    )
+    .join('\n');
+}
+
+/**
+ * Parse meal times entered on the result page
+ * @param timesText - Entries separated by newlines or semicolons, each
+ *   `meal=HH:mm~HH:mm` (e.g. `아침=07:00~08:00`)
+ * @returns Default times overridden by the entries, or error message
+ */
+export function parseMealTimes(
+  timesText: string,
+): Map<string, MealTime> | { error: string } {
+  const mealTimes = new Map(DEFAULT_MEAL_TIMES);
+
+  const entries = timesText
+    .split(/[;\n]/)
+    .map((entry) => entry.trim())
+    .filter(Boolean);
+
+  for (const entry of entries) {
+    const match = entry.match(
+      /^(.+?)\s*=\s*(\d{1,2}):(\d{2})\s*[~-]\s*(\d{1,2}):(\d{2})$/,
+    );
+    if (!match) {
+      return {
+        error: `식사 시간 형식이 올바르지 않습니다: ${entry} (예: 아침=07:00~08:00)`,
+      };
+    }
+
+    const [startHour, startMinute, endHour, endMinute] = match
+      .slice(2)
+      .map((part) => parseInt(part, 10));
+    const start = startHour * 60 + startMinute;
+    const end = endHour * 60 + endMinute;
+    if (
+      Math.max(startHour, endHour) > 23 ||
+      Math.max(startMinute, endMinute) > 59 ||
+      start === end
+    ) {
+      return { error: `식사 시간이 올바르지 않습니다: ${entry}` };
+    }
+
+    mealTimes.set(match[1], { start, end });
+  }
+
+  return mealTimes;
+}
+
+// ===== ICALENDAR =====
+
+// Escape text values (RFC 5545 section 3.3.11)
+const escapeText = (text: string) =>
+  text
+    .replace(/\\/g, '\\\\')
+    .replace(/;/g, '\\;')
+    .replace(/,/g, '\\,')
+    .replace(/\n/g, '\\n');
+
+// Fold lines longer than 75 octets (RFC 5545 section 3.1), without splitting
+// multi-byte characters
+const foldLine = (line: string) => {
+  const encoder = new TextEncoder();
+  const parts: string[] = [];
+  let current = '';
+  let currentBytes = 0;
+
+  for (const char of line) {
+    const charBytes = encoder.encode(char).length;
+    // Continuation lines start with a space, which counts toward the limit
+    const limit = parts.length === 0 ? 75 : 74;
+    if (currentBytes + charBytes > limit) {
+      parts.push(current);
+      current = '';
+      currentBytes = 0;
+    }
+    current += char;
+    currentBytes += charBytes;
+  }
+  parts.push(current);
+
+  return parts.join('\r\n ');
+};
+
+/**
+ * Build an iCalendar file with one event per meal duty
+ * @param duties - Meal duties in order
+ * @param mealTimes - Times by meal label; other meals become all-day events
+ * @param options - `person` keeps only that person's duties; `uidPrefix`
+ *   keeps event IDs stable so re-importing the same draw updates the events
+ * @returns Contents of the .ics file
+ */
+export function buildCalendar(
+  duties: CalendarDuty[],
+  mealTimes: Map<string, MealTime>,
+  options: { person: string | null; uidPrefix: string },
+): string {
+  const { person, uidPrefix } = options;
+  const stamp = dayjs().toISOString().replace(/[-:]/g, '').slice(0, 15) + 'Z';
+
+  const lines = [
+    'BEGIN:VCALENDAR',
+    'VERSION:2.0',
+    'PRODID:-//sikcheong//식당청소 뺑뺑이//KO',
+    'CALSCALE:GREGORIAN',
+    'METHOD:PUBLISH',
+    `X-WR-CALNAME:${escapeText(person ? `식청 (${person})` : '식청')}`,
+  ];
+
+  duties.forEach((duty, index) => {
+    if (person && !duty.team.includes(person)) return;
+
+    const day = dayjs(duty.date).startOf('day');
+    const time = mealTimes.get(duty.meal);
+    // Times are floating local times, so they show as entered on any device
+    const timing = time
+      ? [
+          `DTSTART:${day.add(time.start, 'minute').format('YYYYMMDDTHHmmss')}`,
+          `DTEND:${day
+            .add(
+              time.end < time.start ? time.end + 24 * 60 : time.end,
+              'minute',
+            )
+            .format('YYYYMMDDTHHmmss')}`,
+        ]
+      : [
+          `DTSTART;VALUE=DATE:${day.format('YYYYMMDD')}`,
+          `DTEND;VALUE=DATE:${day.add(1, 'day').format('YYYYMMDD')}`,
+        ];
+
+    const teammates = person
+      ? duty.team.filter((member) => member !== person)
+      : duty.team;
+
+    lines.push(
+      'BEGIN:VEVENT',
+      `UID:${uidPrefix}-${day.format('YYYYMMDD')}-${index + 1}${
+        person ? `-${encodeURIComponent(person)}` : ''
+      }@sikcheong`,
+      `DTSTAMP:${stamp}`,
+      ...timing,
+      `SUMMARY:${escapeText(`식청 (${duty.meal})`)}`,
+      `DESCRIPTION:${escapeText(
+        `${person ? '함께하는 사람' : '팀'}: ${teammates.join(', ') || '없음'}`,
+      )}`,
+      'END:VEVENT',
+    );
+  });
+
+  lines.push('END:VCALENDAR');
+  return lines.map(foldLine).join('\r\n') + '\r\n';
+}
@@ -0,0 +1,87 @@
+/**
+ * 식당청소 뺑뺑이 (Dining Hall Cleaning Duty Team Randomizer)
+ * Commit-reveal proofs that a draw's seed was fixed before the draw
+ */
+
+// ===== TYPES =====
+
+/**
+ * Outcome of checking a revealed secret against its commitment
+ */
+export type CommitmentStatus =
+  | 'sealed' // Commitment published, secret not revealed yet
+  | 'checking' // Hash is being computed
+  | 'verified' // Secret matches the commitment
+  | 'mismatch' // Secret doesn't match the commitment
+  | 'unanchored' // Secret matches, but no contribution was mixed in after it
+  | 'unavailable'; // Browser can't compute SHA-256 (e.g. insecure context)
+
+// ===== SECRETS =====
+
+/**
+ * Generate a random secret to mix into the seed
+ * @returns 32 hex characters (128 bits) from the browser's secure random source
+ */
+export function createSecret(): string {
+  const bytes = new Uint8Array(16);
+  crypto.getRandomValues(bytes);
+  return Array.from(bytes, (byte) => byte.toString(16).padStart(2, '0')).join(
+    '',
+  );
+}
+
+// ===== COMMITMENTS =====
+
+/**
+ * Check that a commitment is a SHA-256 hex digest
+ * @param commitParam - Commitment from URL
+ * @returns True if it has 64 hex characters
+ */
+export function isValidCommitment(commitParam: string): boolean {
+  return /^[0-9a-f]{64}$/.test(commitParam);
+}
+
+/**
+ * Hash the seed and secret into the commitment published before the draw
+ * @param seedText - Public seed text (e.g. the date)
+ * @param secret - Secret revealed after the draw
+ * @returns SHA-256 hex digest of `seedText:secret`, or null if the browser
+ *   can't hash
+ */
+export async function createCommitment(
+  seedText: string,
+  secret: string,
+): Promise<string | null> {
+  if (typeof crypto === 'undefined' || !crypto.subtle) return null;
+
+  const data = new TextEncoder().encode(`${seedText}:${secret}`);
+  const digest = await crypto.subtle.digest('SHA-256', data);
+  return Array.from(new Uint8Array(digest), (byte) =>
+    byte.toString(16).padStart(2, '0'),
+  ).join('');
+}
+
+/**
+ * Check a revealed secret against the commitment published before the draw.
+ * The organizer knows the seed and the secret when committing, so the proof
+ * only holds once contributions collected after the sealed link (which
+ * carries none) are mixed in
+ * @param commitment - Published SHA-256 hex digest
+ * @param seedText - Public seed text
+ * @param secret - Revealed secret (null if not revealed yet)
+ * @param contributionCount - Contributions mixed into the seed
+ * @returns Verification status
+ */
+export async function verifyCommitment(
+  commitment: string,
+  seedText: string,
+  secret: string | null,
+  contributionCount: number,
+): Promise<CommitmentStatus> {
+  if (!secret) return 'sealed';
+
+  const hash = await createCommitment(seedText, secret);
+  if (hash === null) return 'unavailable';
+  if (hash !== commitment) return 'mismatch';
+  return contributionCount > 0 ? 'verified' : 'unanchored';
+}
@@ -0,0 +1,449 @@
+/**
+ * 식당청소 뺑뺑이 (Dining Hall Cleaning Duty Team Randomizer)
+ * Constraints between participants that the draw must respect
+ */
+import { escapeName, readName, splitEntries, splitList } from './encoding';
+
+// ===== TYPES =====
+
+/**
+ * Two participants bound by a constraint
+ */
+export type Pair = [string, string];
+
+/**
+ * A period when a participant can't be drawn (leave, guard duty, training)
+ */
+export interface Unavailability {
+  person: string; // Participant name
+  startDate: string; // First day in YYYYMMDD format (inclusive)
+  endDate: string; // Last day in YYYYMMDD format (inclusive)
+  meals: string[]; // Meal labels affected (empty = every meal)
+}
+
+/**
+ * Rules that keep a participant's duties apart
+ */
+export interface SpacingRules {
+  minGap: number; // Rounds off required between two duties (0 = no rule)
+  maxPerDay: number | null; // Most duties per day (null = no limit)
+  crossDay: boolean; // Whether the gap also spans days (dinner → breakfast)
+}
+
+/**
+ * A duty that breaks a spacing rule
+ */
+export interface SpacingViolation {
+  person: string; // Participant name
+  round: number; // Round of the offending duty
+  reason: string; // Rule that was broken
+}
+
+// ===== PAIR CONSTRAINTS =====
+
+/**
+ * Parse pair constraints from URL
+ * @param pairsParam - Pairs in `a,b;c,d` format
+ * @param formatVersion - Format version of the link (names escape `,` `;`
+ *   and `\` since `fmt=2`)
+ * @returns List of pairs (incomplete pairs are ignored)
+ */
+export function parsePairs(
+  pairsParam: string | null,
+  formatVersion: number,
+): Pair[] {
+  if (!pairsParam) return [];
+
+  const pairs: Pair[] = [];
+  splitList(pairsParam, ';', formatVersion).forEach((pairData) => {
+    const [first, second] = splitList(pairData, ',', formatVersion)
+      .map((name) => readName(name.trim(), formatVersion))
+      .filter(Boolean);
+    if (first && second) {
+      pairs.push([first, second]);
+    }
+  });
+  return pairs;
+}
+
+/**
+ * Format pair constraints for a link (and the form)
+ * @param pairs - List of pairs
+ * @returns Pairs in `a,b;c,d` format with escaped names
+ */
+export function formatPairs(pairs: Pair[]): string {
+  return pairs
+    .map(([first, second]) => `${escapeName(first)},${escapeName(second)}`)
+    .join(';');
+}
+
+/**
+ * Group participants who must always be on the same team
+ * @param pool - List of participant names
+ * @param requirePairs - Pairs that must share a team
+ * @returns Groups in pool order; unpaired participants form their own group
+ */
+export function buildRequiredGroups(
+  pool: string[],
+  requirePairs: Pair[],
+): string[][] {
+  // Union-find over participant names
+  const parent: Record<string, string> = {};
+  pool.forEach((person) => {
+    parent[person] = person;
+  });
+
+  const find = (person: string): string => {
+    while (parent[person] !== person) {
+      parent[person] = parent[parent[person]];
+      person = parent[person];
+    }
+    return person;
+  };
+
+  requirePairs.forEach(([a, b]) => {
+    if (!(a in parent) || !(b in parent)) return;
+    const rootA = find(a);
+    const rootB = find(b);
+    if (rootA !== rootB) {
+      parent[rootB] = rootA;
+    }
+  });
+
+  const groups = new Map<string, string[]>();
+  pool.forEach((person) => {
+    const root = find(person);
+    if (!groups.has(root)) {
+      groups.set(root, []);
+    }
+    groups.get(root)!.push(person);
+  });
+
+  return Array.from(groups.values());
+}
+
+/**
+ * Split participants who must be apart into disjoint groups where everyone
+ * avoids everyone else, so at most one of each group fits on a team
+ * @param pool - List of participant names
+ * @param avoidPairs - Pairs that must never share a team
+ * @returns Groups of two or more, greedily grown in pool order
+ */
+export function buildAvoidCliques(
+  pool: string[],
+  avoidPairs: Pair[],
+): string[][] {
+  const avoids = (a: string, b: string) =>
+    avoidPairs.some(
+      ([first, second]) =>
+        (first === a && second === b) || (first === b && second === a),
+    );
+
+  const grouped = new Set<string>();
+  const cliques: string[][] = [];
+  pool.forEach((person) => {
+    if (grouped.has(person)) return;
+
+    const clique = [person];
+    pool.forEach((other) => {
+      if (
+        !grouped.has(other) &&
+        !clique.includes(other) &&
+        clique.every((member) => avoids(member, other))
+      ) {
+        clique.push(other);
+      }
+    });
+
+    if (clique.length > 1) {
+      clique.forEach((member) => grouped.add(member));
+      cliques.push(clique);
+    }
+  });
+  return cliques;
+}
+
+/**
+ * Check whether adding members to a team would pair people who must be apart
+ * @param members - Participants about to join the team
+ * @param team - Current team members
+ * @param avoidPairs - Pairs that must never share a team
+ * @returns True if any member conflicts with a team member
+ */
+export function hasAvoidConflict(
+  members: string[],
+  team: string[],
+  avoidPairs: Pair[],
+): boolean {
+  return avoidPairs.some(
+    ([a, b]) =>
+      (members.includes(a) && team.includes(b)) ||
+      (members.includes(b) && team.includes(a)),
+  );
+}
+
+/**
+ * Find the settings that make pair constraints impossible to satisfy
+ * @param pool - List of participant names
+ * @param teamSize - Number of members per team
+ * @param avoidPairs - Pairs that must never share a team
+ * @param requirePairs - Pairs that must always share a team
+ * @returns Error message, or null if the constraints are consistent
+ */
+export function validatePairConstraints(
+  pool: string[],
+  teamSize: number,
+  avoidPairs: Pair[],
+  requirePairs: Pair[],
+): string | null {
+  // Every name must be in the pool
+  const unknown = Array.from(
+    new Set([...avoidPairs, ...requirePairs].flat()),
+  ).filter((person) => !pool.includes(person));
+  if (unknown.length > 0) {
+    return `팀 조건에 참가자 명단에 없는 이름이 있습니다: ${unknown.join(', ')}`;
+  }
+
+  const samePerson = [...avoidPairs, ...requirePairs].find(([a, b]) => a === b);
+  if (samePerson) {
+    return `'${samePerson[0]}'을(를) 자기 자신과 짝지을 수 없습니다.`;
+  }
+
+  const groups = buildRequiredGroups(pool, requirePairs);
+
+  // A required group must fit in a single team
+  const oversized = groups.find((group) => group.length > teamSize);
+  if (oversized) {
+    return `${oversized.join(', ')}은(는) 항상 같은 팀이어야 하지만 팀 인원수(${teamSize}명)보다 많습니다.`;
+  }
+
+  // Nobody can be required and forbidden to share a team at the same time
+  for (const [a, b] of avoidPairs) {
+    const group = groups.find((members) => members.includes(a));
+    if (group?.includes(b)) {
+      return `'${a}'와(과) '${b}'는 같은 팀 필수 조건(${group.join(', ')})과 같은 팀 금지 조건이 동시에 걸려 있습니다.`;
+    }
+  }
+
+  return null;
+}
+
+// ===== UNAVAILABILITY =====
+
+/**
+ * Parse unavailability entries from URL or form input
+ * @param unavailableParam - Entries in `name:YYYYMMDD[~YYYYMMDD][:meal,meal]`
+ *   format, separated by `;` or new lines
+ * @param formatVersion - Format version of the link (names and meals escape
+ *   `,` `:` `;` and `\` since `fmt=2`)
+ * @returns List of entries, or error message naming the malformed entry
+ */
+export function parseUnavailability(
+  unavailableParam: string | null,
+  formatVersion: number,
+): Unavailability[] | { error: string } {
+  if (!unavailableParam) return [];
+
+  const entries: Unavailability[] = [];
+  for (const entryData of splitEntries(unavailableParam, formatVersion)) {
+    const entry = entryData.trim();
+    if (!entry) continue;
+
+    const [person, dates, meals] = splitList(entry, ':', formatVersion).map(
+      (part) => part.trim(),
+    );
+    const [startDate, endDate = startDate] = (dates || '')
+      .split('~')
+      .map((date) => date.trim());
+
+    if (
+      !person ||
+      !/^\d{8}$/.test(startDate) ||
+      !/^\d{8}$/.test(endDate) ||
+      endDate < startDate
+    ) {
+      return {
+        error: `열외 형식이 올바르지 않습니다: '${entry}' (예: 홍길동:20250101~20250103:아침,점심)`,
+      };
+    }
+
+    entries.push({
+      person: readName(person, formatVersion),
+      startDate,
+      endDate,
+      meals: splitList(meals || '', ',', formatVersion)
+        .map((meal) => readName(meal.trim(), formatVersion))
+        .filter(Boolean),
+    });
+  }
+  return entries;
+}
+
+/**
+ * Format unavailability entries for a link (and the form)
+ * @param entries - Unavailability entries
+ * @returns One entry per line with escaped names and meals
+ */
+export function formatUnavailability(entries: Unavailability[]): string {
+  return entries
+    .map(({ person, startDate, endDate, meals }) =>
+      [
+        escapeName(person),
+        endDate === startDate ? startDate : `${startDate}~${endDate}`,
+        ...(meals.length > 0
+          ? [meals.map((meal) => escapeName(meal)).join(',')]
+          : []),
+      ].join(':'),
+    )
+    .join('\n');
+}
+
+/**
+ * Check whether a participant is unavailable for a meal
+ * @param entries - Unavailability entries
+ * @param person - Participant name
+ * @param dateString - Day of the meal in YYYYMMDD format
+ * @param mealLabel - Label of the meal
+ * @returns True if any entry covers the meal
+ */
+export function isUnavailable(
+  entries: Unavailability[],
+  person: string,
+  dateString: string,
+  mealLabel: string,
+): boolean {
+  return entries.some(
+    (entry) =>
+      entry.person === person &&
+      entry.startDate <= dateString &&
+      dateString <= entry.endDate &&
+      (entry.meals.length === 0 || entry.meals.includes(mealLabel)),
+  );
+}
+
+// ===== SPACING RULES =====
+
+// Rules that leave duties unrestricted
+export const NO_SPACING_RULES: SpacingRules = {
+  minGap: 0,
+  maxPerDay: null,
+  crossDay: false,
+};
+
+/**
+ * Parse spacing rules from URL
+ * @param gapParam - Rounds off required between two duties
+ * @param perDayParam - Most duties per person per day
+ * @param crossDayParam - '1' to apply the gap across days
+ * @returns Spacing rules (missing or invalid values disable a rule)
+ */
+export function parseSpacingRules(
+  gapParam: string | null,
+  perDayParam: string | null,
+  crossDayParam: string | null,
+): SpacingRules {
+  const minGap = gapParam ? parseInt(gapParam, 10) : 0;
+  const maxPerDay = perDayParam ? parseInt(perDayParam, 10) : NaN;
+
+  return {
+    minGap: minGap > 0 ? minGap : 0,
+    maxPerDay: maxPerDay > 0 ? maxPerDay : null,
+    crossDay: crossDayParam === '1',
+  };
+}
+
+/**
+ * Check whether any spacing rule is active
+ * @param rules - Spacing rules
+ * @returns True if the draw has to keep duties apart
+ */
+export function hasSpacingRules(rules: SpacingRules): boolean {
+  return rules.minGap > 0 || rules.maxPerDay !== null;
+}
+
+/**
+ * Describe active spacing rules for display
+ * @param rules - Spacing rules
+ * @returns Korean summary, e.g. "최소 간격 1라운드(날짜 간 포함), 하루 최대 1회"
+ */
+export function describeSpacingRules(rules: SpacingRules): string {
+  return [
+    rules.minGap > 0 &&
+      `최소 간격 ${rules.minGap}라운드${rules.crossDay ? '(날짜 간 포함)' : ''}`,
+    rules.maxPerDay !== null && `하루 최대 ${rules.maxPerDay}회`,
+  ]
+    .filter(Boolean)
+    .join(', ');
+}
+
+/**
+ * Check whether two duties of the same person are too close together
+ * @param roundA - Index of one duty's round
+ * @param roundB - Index of the other duty's round
+ * @param roundDays - Day index of each round
+ * @param rules - Spacing rules
+ * @returns True if the gap rule forbids holding both duties
+ */
+export function isTooClose(
+  roundA: number,
+  roundB: number,
+  roundDays: number[],
+  rules: SpacingRules,
+): boolean {
+  if (rules.minGap <= 0) return false;
+  if (
+    !rules.crossDay &&
+    (roundDays[roundA] ?? 0) !== (roundDays[roundB] ?? 0)
+  ) {
+    return false;
+  }
+  return Math.abs(roundA - roundB) <= rules.minGap;
+}
+
+/**
+ * Find duties that break spacing rules, e.g. after manual edits
+ * @param teams - Teams for each round
+ * @param roundDays - Day index of each round
+ * @param rules - Spacing rules
+ * @returns Violations at the later duty of each offending pair
+ */
+export function findSpacingViolations(
+  teams: string[][],
+  roundDays: number[],
+  rules: SpacingRules,
+): SpacingViolation[] {
+  const violations: SpacingViolation[] = [];
+  const dutiesByPerson: Record<string, number[]> = {};
+  teams.forEach((team, round) => {
+    team.forEach((person) => {
+      (dutiesByPerson[person] ||= []).push(round);
+    });
+  });
+
+  Object.entries(dutiesByPerson).forEach(([person, duties]) => {
+    const perDay: Record<number, number> = {};
+    duties.forEach((round, index) => {
+      const day = roundDays[round] ?? 0;
+      perDay[day] = (perDay[day] || 0) + 1;
+
+      if (rules.maxPerDay !== null && perDay[day] > rules.maxPerDay) {
+        violations.push({
+          person,
+          round,
+          reason: `하루 최대 ${rules.maxPerDay}회 초과`,
+        });
+      } else if (
+        index > 0 &&
+        isTooClose(duties[index - 1], round, roundDays, rules)
+      ) {
+        violations.push({
+          person,
+          round,
+          reason: `${rules.minGap}라운드 이내 연속 근무`,
+        });
+      }
+    });
+  });
+
+  return violations;
+}
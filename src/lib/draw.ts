@@ -0,0 +1,1071 @@
+/**
+ * 식당청소 뺑뺑이 (Dining Hall Cleaning Duty Team Randomizer)
+ * Draw pipeline shared by the result page and server routes: link params in,
+ * teams out
+ */
+import dayjs from 'dayjs';
+import {
+  parseTeamSizes,
+  parseContributions,
+  formatContributions,
+  getRoundTeamSizes,
+  getUnavailableByRound,
+  getAdjacentDates,
+  getScheduleDays,
+  formatDateForDisplay,
+  MAX_TOTAL_SLOTS,
+  type ScheduleDay,
+  type SeedContribution,
+  type DrawStep,
+} from './randomizer';
+import {
+  parsePairs,
+  formatPairs,
+  parseUnavailability,
+  formatUnavailability,
+  parseSpacingRules,
+  buildRequiredGroups,
+  hasAvoidConflict,
+  hasSpacingRules,
+  findSpacingViolations,
+  type Pair,
+  type Unavailability,
+  type SpacingRules,
+  type SpacingViolation,
+} from './constraints';
+import {
+  DEFAULT_MEAL_SCHEDULE,
+  getMealOrder,
+  parseMealSchedule,
+  type MealSchedule,
+} from './meals';
+import {
+  findUnsupportedParams,
+  getDrawEngine,
+  parseEngineVersion,
+  LATEST_ENGINE_VERSION,
+} from './engine';
+import { isValidCommitment } from './commitment';
+import {
+  parseHolidayCalendar,
+  HOLIDAY_CALENDAR_PARAM,
+  LATEST_HOLIDAY_CALENDAR,
+} from './holidays';
+import {
+  escapeName,
+  formatPool,
+  parseFormatVersion,
+  parsePool,
+  readName,
+  splitList,
+  FORMAT_PARAM,
+  LATEST_FORMAT_VERSION,
+  LEGACY_FORMAT_VERSION,
+} from './encoding';
+
+// ===== TYPES =====
+
+/**
+ * Settings and teams of a result link
+ */
+export interface DrawResult {
+  seed: number;
+  seedText: string;
+  secret: string | null;
+  commitment: string | null;
+  contributions: SeedContribution[];
+  engineVersion: number;
+  isDateSeed: boolean;
+  formattedDate: ReturnType<typeof formatDateForDisplay> | null;
+  parsedDate: Date | null;
+  formattedEndDate: ReturnType<typeof formatDateForDisplay> | null;
+  days: ScheduleDay[] | null;
+  pool: string[];
+  avoidPairs: Pair[];
+  requirePairs: Pair[];
+  unavailability: Unavailability[];
+  unavailable: string[][];
+  spacing: SpacingRules | null;
+  mealSchedule: MealSchedule;
+  teamSizes: number[];
+  teams: string[][] | null; // Null when the link has an error or is sealed
+  appearances: Record<string, number> | null;
+  error: string | null;
+  infeasible: boolean; // Settings are readable but no teams meet them
+}
+
+/**
+ * Result link drawn in full, with what the result page shows around it
+ */
+export interface DrawOutcome extends DrawResult {
+  adjacentDates: ReturnType<typeof getAdjacentDates> | null;
+  constraintErrors: Record<string, string>; // Broken by manual edits
+  spacingViolations: SpacingViolation[]; // Broken by manual edits
+  trace: DrawStep[] | null; // Steps of the draw (audit mode)
+}
+
+/**
+ * One side of a traded duty: who gives up which round
+ */
+export interface SwapSide {
+  round: number;
+  person: string;
+}
+
+/**
+ * Two people trading duties ("I'll take your dinner, you take my lunch")
+ */
+export type Swap = [SwapSide, SwapSide];
+
+// ===== CUSTOMIZATIONS =====
+
+/**
+ * Parse participants taken off rounds by hand
+ * @param disabledParam - `disabled` param from URL
+ * @param formatVersion - Format version of the link
+ * @returns Disabled people by round index
+ */
+export function parseDisabledFromUrl(
+  disabledParam: string | null,
+  formatVersion: number,
+): Record<number, Set<string>> {
+  if (!disabledParam) return {};
+
+  const disabled: Record<number, Set<string>> = {};
+  try {
+    // Format: round1:person1,person2;round2:person3,person4
+    const rounds = splitList(disabledParam, ';', formatVersion);
+    rounds.forEach((roundData) => {
+      const [roundStr, peopleStr] = splitList(roundData, ':', formatVersion);
+      if (roundStr && peopleStr) {
+        const roundNum = parseInt(roundStr.replace('round', ''), 10) - 1;
+        const people = splitList(peopleStr, ',', formatVersion)
+          .filter(Boolean)
+          .map((person) => readName(person, formatVersion));
+        disabled[roundNum] = new Set(people);
+      }
+    });
+  } catch (error) {
+    console.error('Error parsing disabled participants:', error);
+  }
+  return disabled;
+}
+
+/**
+ * Format participants taken off rounds by hand, in the latest link format
+ * @param disabled - Disabled people by round index
+ * @returns `disabled` param for URL, or null when nobody is disabled
+ */
+export function formatDisabledForUrl(
+  disabled: Record<number, Set<string>>,
+): string | null {
+  const parts: string[] = [];
+  Object.entries(disabled).forEach(([round, people]) => {
+    if (people.size > 0) {
+      parts.push(
+        `round${parseInt(round) + 1}:${Array.from(people, (person) => escapeName(person)).join(',')}`,
+      );
+    }
+  });
+  return parts.length > 0 ? parts.join(';') : null;
+}
+
+/**
+ * Parse duties traded by hand
+ * @param swapParam - `swap` param from URL
+ * @param formatVersion - Format version of the link
+ * @returns Trades in the order they are applied
+ */
+export function parseSwapsFromUrl(
+  swapParam: string | null,
+  formatVersion: number,
+): Swap[] {
+  if (!swapParam) return [];
+
+  // Format: round1:person1,round3:person2;round2:person3,round5:person4
+  return splitList(swapParam, ';', formatVersion).flatMap((swapData) => {
+    const sides = splitList(swapData, ',', formatVersion).map((sideData) => {
+      const [roundStr, person] = splitList(sideData, ':', formatVersion);
+      const round = parseInt(roundStr?.replace('round', '') ?? '', 10) - 1;
+      return round >= 0 && person
+        ? { round, person: readName(person, formatVersion) }
+        : null;
+    });
+
+    return sides.length === 2 && sides[0] && sides[1]
+      ? [[sides[0], sides[1]] as Swap]
+      : [];
+  });
+}
+
+/**
+ * Format duties traded by hand, in the latest link format
+ * @param swaps - Trades in the order they are applied
+ * @returns `swap` param for URL, or null when nothing is traded
+ */
+export function formatSwapsForUrl(swaps: Swap[]): string | null {
+  const parts = swaps.map((swap) =>
+    swap
+      .map(({ round, person }) => `round${round + 1}:${escapeName(person)}`)
+      .join(','),
+  );
+  return parts.length > 0 ? parts.join(';') : null;
+}
+
+/**
+ * Rewrite a link in the latest format, keeping what it means
+ * @param searchParams - Params of a link in any known format
+ * @returns Params with the latest `fmt`; lists are re-encoded only when they
+ *   contain a backslash, the one character both formats read differently
+ */
+export function migrateParams(searchParams: URLSearchParams): URLSearchParams {
+  const newParams = new URLSearchParams(searchParams.toString());
+  if (parseFormatVersion(searchParams) !== LEGACY_FORMAT_VERSION) {
+    return newParams;
+  }
+
+  const pool = searchParams.get('pool');
+  if (pool?.includes('\\')) {
+    newParams.set('pool', formatPool(parsePool(pool, LEGACY_FORMAT_VERSION)));
+  }
+
+  const disabled = searchParams.get('disabled');
+  if (disabled?.includes('\\')) {
+    const migrated = formatDisabledForUrl(
+      parseDisabledFromUrl(disabled, LEGACY_FORMAT_VERSION),
+    );
+    if (migrated) {
+      newParams.set('disabled', migrated);
+    } else {
+      newParams.delete('disabled');
+    }
+  }
+
+  const swap = searchParams.get('swap');
+  if (swap?.includes('\\')) {
+    const migrated = formatSwapsForUrl(
+      parseSwapsFromUrl(swap, LEGACY_FORMAT_VERSION),
+    );
+    if (migrated) {
+      newParams.set('swap', migrated);
+    } else {
+      newParams.delete('swap');
+    }
+  }
+
+  (['avoid', 'require'] as const).forEach((name) => {
+    const pairs = searchParams.get(name);
+    if (pairs?.includes('\\')) {
+      newParams.set(
+        name,
+        formatPairs(parsePairs(pairs, LEGACY_FORMAT_VERSION)),
+      );
+    }
+  });
+
+  const unavailable = searchParams.get('unavailable');
+  if (unavailable?.includes('\\')) {
+    const entries = parseUnavailability(unavailable, LEGACY_FORMAT_VERSION);
+    // Malformed entries are kept as typed so the form still shows the error
+    if (!('error' in entries)) {
+      newParams.set('unavailable', formatUnavailability(entries));
+    }
+  }
+
+  const contrib = searchParams.get('contrib');
+  if (contrib?.includes('\\')) {
+    newParams.set(
+      'contrib',
+      formatContributions(parseContributions(contrib, LEGACY_FORMAT_VERSION)),
+    );
+  }
+
+  newParams.set(FORMAT_PARAM, String(LATEST_FORMAT_VERSION));
+  return newParams;
+}
+
+// Calculate appearances from current teams
+const calculateAppearances = (teams: string[][]) => {
+  const appearances: Record<string, number> = {};
+  teams.forEach((team) => {
+    team.forEach((person) => {
+      appearances[person] = (appearances[person] || 0) + 1;
+    });
+  });
+  return appearances;
+};
+
+// Errors by person for appearances outside the min/max limits
+const findAppearanceErrors = (
+  appearances: Record<string, number>,
+  pool: string[],
+  minAppearances: number,
+  maxAppearances: number,
+) => {
+  const errors: Record<string, string> = {};
+  pool.forEach((person) => {
+    const count = appearances[person] || 0;
+    if (count < minAppearances) {
+      errors[person] =
+        `최소 ${minAppearances}회 이상 참여해야 합니다. (현재: ${count}회)`;
+    } else if (count > maxAppearances) {
+      errors[person] =
+        `최대 ${maxAppearances}회까지만 참여 가능합니다. (현재: ${count}회)`;
+    }
+  });
+  return errors;
+};
+
+// Find replacement for a team member
+const findReplacement = (
+  currentTeam: string[],
+  removedPerson: string,
+  round: number,
+  allTeams: string[][],
+  pool: string[],
+  disabled: Set<string>,
+  seed: number,
+  minAppearances: number,
+  maxAppearances: number,
+  avoidPairs: Pair[],
+  requirePairs: Pair[],
+  createRandom: (seed: number) => () => number,
+): string | null => {
+  // Calculate current appearances
+  const appearances: Record<string, number> = {};
+  pool.forEach((person) => {
+    appearances[person] = 0;
+  });
+  allTeams.forEach((team, idx) => {
+    if (idx !== round) {
+      team.forEach((person) => {
+        appearances[person] = (appearances[person] || 0) + 1;
+      });
+    }
+  });
+
+  // People bound to a partner can't join alone as a single replacement
+  const pairedPeople = buildRequiredGroups(pool, requirePairs)
+    .filter((group) => group.length > 1)
+    .flat();
+
+  // Get eligible replacements
+  const eligible = pool.filter(
+    (person) =>
+      person !== removedPerson &&
+      !currentTeam.includes(person) &&
+      !disabled.has(person) &&
+      !pairedPeople.includes(person) &&
+      !hasAvoidConflict([person], currentTeam, avoidPairs) &&
+      appearances[person] < maxAppearances,
+  );
+
+  if (eligible.length === 0) return null;
+
+  // Sort by priority: those under min appearances first, then by fewest appearances
+  eligible.sort((a, b) => {
+    const aUnderMin = appearances[a] < minAppearances ? 1 : 0;
+    const bUnderMin = appearances[b] < minAppearances ? 1 : 0;
+
+    if (aUnderMin !== bUnderMin) {
+      return bUnderMin - aUnderMin;
+    }
+
+    return appearances[a] - appearances[b];
+  });
+
+  // Use seeded random to pick from top candidates
+  const random = createRandom(seed + round);
+  const topCandidates = eligible.filter(
+    (person) => appearances[person] === appearances[eligible[0]],
+  );
+
+  const randomIndex = Math.floor(random() * topCandidates.length);
+  return topCandidates[randomIndex];
+};
+
+/**
+ * Replace participants taken off rounds by hand, keeping the rest of the draw
+ * @returns Edited teams, appearances, and errors by person or `round-N`
+ */
+export function regenerateTeamsWithDisabled(
+  originalTeams: string[][],
+  pool: string[],
+  disabled: Record<number, Set<string>>,
+  seed: number,
+  minAppearances: number,
+  maxAppearances: number,
+  avoidPairs: Pair[],
+  requirePairs: Pair[],
+  unavailable: string[][],
+  createRandom: (seed: number) => () => number,
+): {
+  teams: string[][];
+  errors: Record<string, string>;
+  appearances: Record<string, number>;
+} {
+  const newTeams = originalTeams.map((team) => [...team]);
+  const errors: Record<string, string> = {};
+  const requiredGroups = buildRequiredGroups(pool, requirePairs);
+
+  // Process each round
+  Object.entries(disabled).forEach(([roundStr, disabledSet]) => {
+    const round = parseInt(roundStr, 10);
+    if (!newTeams[round]) return;
+
+    // Remove disabled participants from this round's team, along with
+    // partners who must always be on the same team as them
+    const currentTeam = newTeams[round];
+    const toRemove = currentTeam.filter((person) =>
+      requiredGroups
+        .find((group) => group.includes(person))
+        ?.some((member) => disabledSet.has(member)),
+    );
+
+    toRemove.forEach((person) => {
+      const idx = currentTeam.indexOf(person);
+      if (idx !== -1) {
+        currentTeam.splice(idx, 1);
+
+        // Find replacement
+        const replacement = findReplacement(
+          currentTeam,
+          person,
+          round,
+          newTeams,
+          pool,
+          // People on leave or duty can't step in either
+          new Set([...disabledSet, ...(unavailable[round] || [])]),
+          seed,
+          minAppearances,
+          maxAppearances,
+          avoidPairs,
+          requirePairs,
+          createRandom,
+        );
+
+        if (replacement) {
+          currentTeam.push(replacement);
+        } else {
+          errors[`round-${round}`] = '대체 인원을 찾을 수 없습니다.';
+        }
+      }
+    });
+  });
+
+  // Validate constraints
+  const appearances = calculateAppearances(newTeams);
+  Object.assign(
+    errors,
+    findAppearanceErrors(appearances, pool, minAppearances, maxAppearances),
+  );
+
+  // Check if all participants are disabled for any round
+  newTeams.forEach((team, round) => {
+    const disabledForRound = disabled[round] || new Set();
+    const availableCount = pool.filter((p) => !disabledForRound.has(p)).length;
+    if (availableCount === 0) {
+      errors[`round-${round}`] = '모든 참가자가 비활성화되었습니다.';
+    }
+  });
+
+  return { teams: newTeams, errors, appearances };
+}
+
+/**
+ * Check that two people can trade duties
+ * @param teams - Current teams
+ * @param swap - Trade to check
+ * @param unavailable - People on leave or duty by round
+ * @param avoidPairs - Pairs who must never be on the same team
+ * @param requirePairs - Pairs who must always be on the same team
+ * @returns Error message, or null when the trade is allowed
+ */
+export function validateSwap(
+  teams: string[][],
+  [first, second]: Swap,
+  unavailable: string[][],
+  avoidPairs: Pair[],
+  requirePairs: Pair[],
+): string | null {
+  const firstTeam = teams[first.round];
+  const secondTeam = teams[second.round];
+
+  if (first.round === second.round) {
+    return '같은 식사 안에서는 바꿀 수 없습니다.';
+  }
+  if (
+    !firstTeam?.includes(first.person) ||
+    !secondTeam?.includes(second.person)
+  ) {
+    return '바꿀 사람이 해당 식사에 배정되어 있지 않습니다.';
+  }
+  if (secondTeam.includes(first.person) || firstTeam.includes(second.person)) {
+    return '이미 상대 식사에 배정되어 있어 바꿀 수 없습니다.';
+  }
+  if (
+    unavailable[second.round]?.includes(first.person) ||
+    unavailable[first.round]?.includes(second.person)
+  ) {
+    return '열외인 식사로는 바꿀 수 없습니다.';
+  }
+  // Partners who must stay together can't be split by a trade
+  if (
+    requirePairs.some(
+      (pair) => pair.includes(first.person) || pair.includes(second.person),
+    )
+  ) {
+    return '같은 팀 필수 조건이 있는 사람은 바꿀 수 없습니다.';
+  }
+  if (
+    hasAvoidConflict(
+      [first.person],
+      secondTeam.filter((person) => person !== second.person),
+      avoidPairs,
+    ) ||
+    hasAvoidConflict(
+      [second.person],
+      firstTeam.filter((person) => person !== first.person),
+      avoidPairs,
+    )
+  ) {
+    return '같은 팀 금지 조건에 걸려 바꿀 수 없습니다.';
+  }
+  return null;
+}
+
+/**
+ * Apply duties traded by hand, skipping trades that are no longer valid
+ * @returns Edited teams, appearances, and errors by person or `swap-N`
+ */
+export function applySwaps(
+  originalTeams: string[][],
+  pool: string[],
+  swaps: Swap[],
+  minAppearances: number,
+  maxAppearances: number,
+  avoidPairs: Pair[],
+  requirePairs: Pair[],
+  unavailable: string[][],
+): {
+  teams: string[][];
+  errors: Record<string, string>;
+  appearances: Record<string, number>;
+} {
+  const newTeams = originalTeams.map((team) => [...team]);
+  const errors: Record<string, string> = {};
+
+  swaps.forEach((swap, index) => {
+    const error = validateSwap(
+      newTeams,
+      swap,
+      unavailable,
+      avoidPairs,
+      requirePairs,
+    );
+    const [first, second] = swap;
+    if (error) {
+      errors[`swap-${index}`] = `${first.person} ↔ ${second.person}: ${error}`;
+      return;
+    }
+
+    const firstTeam = newTeams[first.round];
+    const secondTeam = newTeams[second.round];
+    firstTeam[firstTeam.indexOf(first.person)] = second.person;
+    secondTeam[secondTeam.indexOf(second.person)] = first.person;
+  });
+
+  // Trades keep everyone's count, but check the limits like any other edit
+  const appearances = calculateAppearances(newTeams);
+  Object.assign(
+    errors,
+    findAppearanceErrors(appearances, pool, minAppearances, maxAppearances),
+  );
+
+  return { teams: newTeams, errors, appearances };
+}
+
+// ===== PIPELINE =====
+
+/**
+ * Largest link a draw accepts, checked before any teams are drawn
+ */
+export interface DrawLimits {
+  rounds: number; // Rounds of a day (`rounds` param)
+  pool: number; // Participants
+  slots: number; // Team slots across every round of the draw
+}
+
+// Limits for every caller, so no link can keep a server or the CLI busy
+export const DEFAULT_DRAW_LIMITS: DrawLimits = {
+  rounds: 200,
+  pool: 200,
+  slots: MAX_TOTAL_SLOTS,
+};
+
+// Names of settings shown when an old engine can't reproduce them
+const PARAM_LABELS: Record<string, string> = {
+  end: '종료 날짜',
+  avoid: '같은 팀 금지',
+  require: '같은 팀 필수',
+  unavailable: '열외',
+  gap: '최소 간격',
+  perDay: '하루 최대 횟수',
+  crossDay: '날짜 간 적용',
+  meals: '식사 일정',
+  secret: '공정성 증명',
+  commit: '공정성 증명',
+  contrib: '함께 정하는 시드',
+};
+
+/**
+ * Draw the teams of a result link
+ * @param searchParams - Params of the result link
+ * @param options - `audit` records every step of the draw; `searchSteps`
+ *   caps the team search (a smaller budget fails sooner but never changes the
+ *   teams it finds); `drawSeed` replaces the link's seed but keeps its date,
+ *   so the simulator can rerun a link with other seeds; `limits` rejects
+ *   larger links before drawing (default: DEFAULT_DRAW_LIMITS)
+ * @returns Settings, teams and manual edits, or the link's error
+ */
+export function drawFromParams(
+  searchParams: URLSearchParams,
+  {
+    audit = false,
+    searchSteps,
+    drawSeed,
+    limits = DEFAULT_DRAW_LIMITS,
+  }: {
+    audit?: boolean;
+    searchSteps?: number;
+    drawSeed?: number;
+    limits?: DrawLimits;
+  } = {},
+): DrawOutcome {
+  // Links keep the engine they were drawn with; links without a version
+  // predate versioning and use the original engine
+  const parsedEngineVersion = parseEngineVersion(searchParams.get('v'));
+  const engineVersion =
+    typeof parsedEngineVersion === 'number'
+      ? parsedEngineVersion
+      : LATEST_ENGINE_VERSION;
+  const engine = getDrawEngine(engineVersion);
+
+  // Names in links older than the format version have no escapes
+  const parsedFormatVersion = parseFormatVersion(searchParams);
+  const formatVersion =
+    typeof parsedFormatVersion === 'number'
+      ? parsedFormatVersion
+      : LATEST_FORMAT_VERSION;
+
+  // Parse URL params
+  const pool = parsePool(searchParams.get('pool'), formatVersion);
+
+  // A single size, or one size per meal (breakfast, lunch, dinner)
+  const parsedTeamSizes = parseTeamSizes(searchParams.get('size'));
+  const teamSizes = 'error' in parsedTeamSizes ? [] : parsedTeamSizes;
+
+  const roundsParam = searchParams.get('rounds');
+  const userRounds = roundsParam ? parseInt(roundsParam, 10) : null;
+
+  const minParam = searchParams.get('min');
+  const minAppearances = minParam ? parseInt(minParam, 10) : 0;
+
+  const maxParam = searchParams.get('max');
+
+  // Pairs who must never / always be on the same team
+  const avoidPairs = parsePairs(searchParams.get('avoid'), formatVersion);
+  const requirePairs = parsePairs(searchParams.get('require'), formatVersion);
+
+  // Rules that keep a person's duties apart
+  const spacing = parseSpacingRules(
+    searchParams.get('gap'),
+    searchParams.get('perDay'),
+    searchParams.get('crossDay'),
+  );
+
+  // Leave, guard duty and training entered up front (date seeds only)
+  const parsedUnavailability = parseUnavailability(
+    searchParams.get('unavailable'),
+    formatVersion,
+  );
+  const unavailability =
+    'error' in parsedUnavailability ? [] : parsedUnavailability;
+
+  // Holidays as listed when the link was made, so added years don't move
+  // its meals
+  const parsedHolidayCalendar = parseHolidayCalendar(
+    searchParams.get(HOLIDAY_CALENDAR_PARAM),
+  );
+  const holidayCalendar =
+    typeof parsedHolidayCalendar === 'number'
+      ? parsedHolidayCalendar
+      : LATEST_HOLIDAY_CALENDAR;
+
+  // Meals served on each weekday and special date
+  const parsedMealSchedule = parseMealSchedule(searchParams.get('meals'));
+  const mealSchedule = {
+    ...('error' in parsedMealSchedule
+      ? DEFAULT_MEAL_SCHEDULE
+      : parsedMealSchedule),
+    holidayCalendar,
+  };
+
+  // Commit-reveal draws mix a secret into the seed; the commitment to it is
+  // published first and the secret revealed after the draw
+  const secret = searchParams.get('secret') || null;
+  const commitment = searchParams.get('commit') || null;
+
+  // Numbers or phrases from several participants, combined into the seed
+  const contributions = parseContributions(
+    searchParams.get('contrib'),
+    formatVersion,
+  );
+
+  const seedParam = searchParams.get('seed');
+  const parsedSeed = engine.parseSeed(seedParam, {
+    secret,
+    contributions: contributions.map((contribution) => contribution.value),
+  });
+  const { seedText, isDateSeed, parsedDate } = parsedSeed;
+  const seed = drawSeed ?? parsedSeed.seed;
+
+  // An end date after a date seed plans every day in the range at once
+  const endParam = searchParams.get('end');
+  const parsedEnd = isDateSeed && endParam ? engine.parseSeed(endParam) : null;
+  const endDate = parsedEnd?.isDateSeed ? parsedEnd.parsedDate : null;
+
+  // Determine rounds based on seed date or user input
+  const rounds = engine.determineRounds(parsedDate, userRounds, mealSchedule);
+
+  // Get adjacent dates if using date seed
+  let adjacentDatesValue = null;
+  if (isDateSeed && parsedDate) {
+    adjacentDatesValue = getAdjacentDates(parsedDate, endDate);
+  }
+
+  let formattedDate = null;
+  if (isDateSeed && parsedDate) {
+    formattedDate = formatDateForDisplay(parsedDate, holidayCalendar);
+  }
+
+  const formattedEndDate = endDate
+    ? formatDateForDisplay(endDate, holidayCalendar)
+    : null;
+
+  const baseResult = {
+    seed,
+    seedText,
+    secret,
+    commitment,
+    contributions,
+    engineVersion,
+    isDateSeed,
+    formattedDate,
+    parsedDate,
+    formattedEndDate,
+    pool,
+    avoidPairs,
+    requirePairs,
+    unavailability,
+    spacing: hasSpacingRules(spacing) ? spacing : null,
+    mealSchedule,
+  };
+
+  // Outcome of a link that stops before drawing teams
+  const failed = (error: string | null, infeasible = false): DrawOutcome => ({
+    ...baseResult,
+    unavailable: [],
+    teamSizes: [],
+    days: null,
+    teams: null,
+    appearances: null,
+    error,
+    infeasible,
+    adjacentDates: null,
+    constraintErrors: {},
+    spacingViolations: [],
+    trace: null,
+  });
+
+  if (typeof parsedEngineVersion !== 'number') {
+    return failed(parsedEngineVersion.error);
+  }
+
+  if (typeof parsedFormatVersion !== 'number') {
+    return failed(parsedFormatVersion.error);
+  }
+
+  if (typeof parsedHolidayCalendar !== 'number') {
+    return failed(parsedHolidayCalendar.error);
+  }
+
+  // Settings added after an engine version can't be reproduced by it
+  const unsupportedParams = findUnsupportedParams(
+    engineVersion,
+    Array.from(searchParams.entries())
+      .filter(([, value]) => value)
+      .map(([name]) => name),
+  );
+  if (unsupportedParams.length > 0) {
+    return failed(
+      `이 링크의 엔진 v${engineVersion}은(는) 다음 설정을 지원하지 않습니다: ${Array.from(
+        new Set(unsupportedParams.map((name) => PARAM_LABELS[name] ?? name)),
+      ).join(
+        ', ',
+      )}. 설정 수정하기로 최신 엔진(v${LATEST_ENGINE_VERSION}) 링크를 다시 만들어 주세요.`,
+    );
+  }
+
+  if (commitment && !isValidCommitment(commitment)) {
+    return failed('커밋 해시 형식이 올바르지 않습니다. (SHA-256 16진수 64자)');
+  }
+
+  // Sealed links only show the commitment until the secret is revealed
+  if (commitment && !secret) {
+    return failed(null);
+  }
+
+  // Generate teams
+  if (pool.length < 2) {
+    return failed('참가자는 최소 2명 이상이어야 합니다.');
+  }
+
+  if (pool.length > limits.pool) {
+    return failed(
+      `참가자는 최대 ${limits.pool}명까지 추가할 수 있습니다. (현재: ${pool.length}명)`,
+    );
+  }
+
+  if (rounds > limits.rounds) {
+    return failed(
+      `라운드 수는 최대 ${limits.rounds}까지 설정할 수 있습니다. (현재: ${rounds})`,
+    );
+  }
+
+  if (parsedEnd && !endDate) {
+    return failed('종료 날짜는 YYYYMMDD 형식이어야 합니다.');
+  }
+
+  if ('error' in parsedUnavailability) {
+    return failed(parsedUnavailability.error);
+  }
+
+  if ('error' in parsedMealSchedule) {
+    return failed(parsedMealSchedule.error);
+  }
+
+  if ('error' in parsedTeamSizes) {
+    return failed(parsedTeamSizes.error);
+  }
+
+  // Label of each round of the day (plain rounds without a date seed)
+  const dayMeals = Array.from({ length: rounds }, (_, round) =>
+    isDateSeed && parsedDate
+      ? engine.getMealLabel(round, parsedDate, mealSchedule)
+      : `라운드 ${round + 1}`,
+  );
+
+  // Who can't be drawn in each round of the day
+  const dayUnavailable =
+    isDateSeed && parsedDate
+      ? getUnavailableByRound(unavailability, parsedDate, dayMeals)
+      : [];
+
+  // Meal sizes follow the schedule's meal order; plain rounds go by position
+  const dayTeamSizes = getRoundTeamSizes(
+    teamSizes,
+    dayMeals,
+    isDateSeed ? getMealOrder(mealSchedule) : [],
+  );
+
+  // Count the slots up front; ranges count every day (a range that's too
+  // long is reported by the draw itself)
+  const scheduleDays =
+    parsedDate && endDate
+      ? getScheduleDays(parsedDate, endDate, userRounds, mealSchedule)
+      : null;
+  const slots =
+    scheduleDays && !('error' in scheduleDays)
+      ? scheduleDays.reduce(
+          (sum, day) =>
+            sum +
+            getRoundTeamSizes(
+              teamSizes,
+              day.meals,
+              getMealOrder(mealSchedule),
+            ).reduce((daySum, size) => daySum + size, 0),
+          0,
+        )
+      : dayTeamSizes.reduce((sum, size) => sum + size, 0);
+  if (slots > limits.slots) {
+    return failed(
+      `한 번에 배정할 수 있는 자리는 최대 ${limits.slots.toLocaleString()}자리입니다. (현재: ${slots.toLocaleString()}자리) 라운드 수나 팀 인원수를 줄이거나 기간을 나눠 보세요.`,
+    );
+  }
+
+  const scheduleResult =
+    parsedDate && endDate
+      ? engine.randomizeSchedule({
+          pool,
+          teamSize: teamSizes,
+          startDate: parsedDate,
+          endDate,
+          userRounds,
+          minAppearances,
+          maxAppearances: maxParam ? parseInt(maxParam, 10) : null,
+          seed,
+          avoidPairs,
+          requirePairs,
+          unavailability,
+          spacing,
+          mealSchedule,
+          audit,
+          searchSteps,
+        })
+      : null;
+
+  const randomResult =
+    scheduleResult ??
+    engine.randomizeTeams({
+      pool,
+      teamSize: dayTeamSizes,
+      rounds,
+      minAppearances,
+      // Set max appearances to rounds if not specified
+      maxAppearances: maxParam ? parseInt(maxParam, 10) : rounds,
+      seed,
+      avoidPairs,
+      requirePairs,
+      unavailable: dayUnavailable,
+      spacing,
+      audit,
+      searchSteps,
+      roundLabels: isDateSeed ? dayMeals : undefined,
+    });
+
+  if ('error' in randomResult) {
+    return failed(randomResult.error, true);
+  }
+
+  // Ranges report the limits they applied across every day
+  const rangeResult =
+    scheduleResult && !('error' in scheduleResult) ? scheduleResult : null;
+  const unavailable = rangeResult?.unavailable ?? dayUnavailable;
+  const maxAppearances =
+    rangeResult?.maxAppearances ?? (maxParam ? parseInt(maxParam, 10) : rounds);
+
+  // Day index of each round, for spacing rules across a range
+  const roundDays =
+    rangeResult?.days.flatMap((day, dayIndex) =>
+      Array<number>(day.rounds).fill(dayIndex),
+    ) ?? [];
+
+  let finalTeams = randomResult.teams;
+  let finalAppearances = randomResult.appearances;
+  let errors: Record<string, string> = {};
+
+  // Apply disabled participants if any
+  const disabledParticipants = parseDisabledFromUrl(
+    searchParams.get('disabled'),
+    formatVersion,
+  );
+  if (Object.keys(disabledParticipants).length > 0) {
+    const regenerated = regenerateTeamsWithDisabled(
+      randomResult.teams,
+      pool,
+      disabledParticipants,
+      seed,
+      minAppearances,
+      maxAppearances,
+      avoidPairs,
+      requirePairs,
+      unavailable,
+      engine.createRandomGenerator,
+    );
+    finalTeams = regenerated.teams;
+    finalAppearances = regenerated.appearances;
+    errors = regenerated.errors;
+  }
+
+  // Then trade duties, on the teams left after the replacements
+  const swaps = parseSwapsFromUrl(searchParams.get('swap'), formatVersion);
+  if (swaps.length > 0) {
+    const swapped = applySwaps(
+      finalTeams,
+      pool,
+      swaps,
+      minAppearances,
+      maxAppearances,
+      avoidPairs,
+      requirePairs,
+      unavailable,
+    );
+    finalTeams = swapped.teams;
+    finalAppearances = swapped.appearances;
+    errors = { ...errors, ...swapped.errors };
+  }
+
+  return {
+    ...baseResult,
+    unavailable,
+    teamSizes: rangeResult?.teamSizes ?? dayTeamSizes,
+    days: rangeResult?.days ?? null,
+    teams: finalTeams,
+    appearances: finalAppearances,
+    error: null,
+    infeasible: false,
+    adjacentDates: adjacentDatesValue,
+    constraintErrors: errors,
+    trace: randomResult.trace ?? null,
+    // Flag manual edits that put someone on duty too often or too close
+    spacingViolations: findSpacingViolations(finalTeams, roundDays, spacing),
+  };
+}
+
+// ===== LABELS =====
+
+/**
+ * Day and meal of a round
+ * @param result - Drawn result link
+ * @param index - Round index
+ * @returns Date (null without a date seed) and meal label (라운드 N without a
+ *   date seed)
+ */
+export function getRoundSlot(
+  result: DrawResult,
+  index: number,
+): { date: Date | null; meal: string } {
+  const day = result.days?.find(
+    (d) => index >= d.offset && index < d.offset + d.rounds,
+  );
+  if (day) {
+    return { date: day.date, meal: day.meals[index - day.offset] };
+  }
+
+  if (result.isDateSeed && result.parsedDate) {
+    return {
+      date: result.parsedDate,
+      meal: getDrawEngine(result.engineVersion).getMealLabel(
+        index,
+        result.parsedDate,
+        result.mealSchedule,
+      ),
+    };
+  }
+
+  return { date: null, meal: `라운드 ${index + 1}` };
+}
+
+/**
+ * Title of a round, prefixed with its day when planning a range
+ * @param result - Drawn result link
+ * @param index - Round index
+ * @returns Meal label (e.g. `10/19 (월) 저녁`), or 라운드 N without a date seed
+ */
+export function formatRoundTitle(result: DrawResult, index: number): string {
+  const { date, meal } = getRoundSlot(result, index);
+  return result.days && date
+    ? `${dayjs(date).format('MM/DD (ddd)')} ${meal}`
+    : meal;
+}
@@ -0,0 +1,179 @@
+/**
+ * 식당청소 뺑뺑이 (Dining Hall Cleaning Duty Team Randomizer)
+ * Versioned format of names in links, so any name survives the round trip
+ */
+
+// ===== VERSIONS =====
+
+/**
+ * Param holding the format version of a link's name lists
+ */
+export const FORMAT_PARAM = 'fmt';
+
+// Links without a format split names on `,` `:` `;` with no escaping
+export const LEGACY_FORMAT_VERSION = 1;
+
+// Names escape `\` `,` `:` `;` with a backslash
+export const LATEST_FORMAT_VERSION = 2;
+
+/**
+ * Parse the format version of a link
+ * @param searchParams - Params of the link
+ * @returns Format version (links without one use the legacy format), or
+ *   error message for unknown versions
+ */
+export function parseFormatVersion(
+  searchParams: URLSearchParams,
+): number | { error: string } {
+  const formatParam = searchParams.get(FORMAT_PARAM);
+  if (!formatParam) return LEGACY_FORMAT_VERSION;
+
+  const version = /^\d+$/.test(formatParam) ? parseInt(formatParam, 10) : NaN;
+  if (!(version >= LEGACY_FORMAT_VERSION && version <= LATEST_FORMAT_VERSION)) {
+    return {
+      error: `지원하지 않는 링크 형식입니다: ${formatParam} (최신: ${LATEST_FORMAT_VERSION})`,
+    };
+  }
+  return version;
+}
+
+/**
+ * Format version of a link that has already been drawn
+ * @param searchParams - Params of the link
+ * @returns Format version; unknown versions fall back to the latest
+ */
+export function getFormatVersion(searchParams: URLSearchParams): number {
+  const version = parseFormatVersion(searchParams);
+  return typeof version === 'number' ? version : LATEST_FORMAT_VERSION;
+}
+
+// ===== ESCAPING =====
+
+/**
+ * Escape a name for a list in a link
+ * @param name - Participant name
+ * @param specials - Characters that separate the list (`\` is always escaped)
+ * @returns Name with a backslash before each special character
+ */
+export function escapeName(name: string, specials = ',:;'): string {
+  return Array.from(name, (char) =>
+    char === '\\' || specials.includes(char) ? `\\${char}` : char,
+  ).join('');
+}
+
+/**
+ * Undo `escapeName`
+ * @param text - Escaped name
+ * @returns Name as it was typed
+ */
+export function unescapeName(text: string): string {
+  return text.replace(/\\([\s\S])/g, '$1');
+}
+
+/**
+ * Split text on a separator, skipping escaped ones
+ * @param text - Escaped list
+ * @param separator - Single separator character
+ * @param limit - Most pieces to return; the last piece keeps the rest
+ * @returns Pieces, still escaped
+ */
+export function splitEscaped(
+  text: string,
+  separator: string,
+  limit = Infinity,
+): string[] {
+  const pieces: string[] = [];
+  let current = '';
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (char === '\\' && i + 1 < text.length) {
+      current += char + text[i + 1];
+      i++;
+    } else if (char === separator && pieces.length < limit - 1) {
+      pieces.push(current);
+      current = '';
+    } else {
+      current += char;
+    }
+  }
+  pieces.push(current);
+  return pieces;
+}
+
+// ===== LISTS =====
+
+/**
+ * Split a list in a link
+ * @param text - List from URL (or the form)
+ * @param separator - Single separator character
+ * @param formatVersion - Format version of the link (legacy links have no
+ *   escapes)
+ * @param limit - Most pieces to return; the last piece keeps the rest
+ * @returns Pieces, still escaped
+ */
+export function splitList(
+  text: string,
+  separator: string,
+  formatVersion: number,
+  limit = Infinity,
+): string[] {
+  if (formatVersion !== LEGACY_FORMAT_VERSION) {
+    return splitEscaped(text, separator, limit);
+  }
+
+  const pieces = text.split(separator);
+  return pieces.length > limit
+    ? [...pieces.slice(0, limit - 1), pieces.slice(limit - 1).join(separator)]
+    : pieces;
+}
+
+/**
+ * Read a name split out of a list
+ * @param text - Piece from `splitList`
+ * @param formatVersion - Format version of the link
+ * @returns Name as it was typed
+ */
+export function readName(text: string, formatVersion: number): string {
+  return formatVersion === LEGACY_FORMAT_VERSION ? text : unescapeName(text);
+}
+
+/**
+ * Split a list of entries given one per line or separated by `;`
+ * @param text - List from URL (or the form)
+ * @param formatVersion - Format version of the link
+ * @returns Entries, still escaped
+ */
+export function splitEntries(text: string, formatVersion: number): string[] {
+  // Names never contain line breaks, so only `;` can be escaped
+  return text
+    .split('\n')
+    .flatMap((line) => splitList(line, ';', formatVersion));
+}
+
+// ===== POOL =====
+
+/**
+ * Parse the participant pool of a link
+ * @param poolParam - `pool` param from URL (as typed in the form)
+ * @param formatVersion - Format version of the link
+ * @returns Names, trimmed and without empty entries
+ */
+export function parsePool(
+  poolParam: string | null,
+  formatVersion: number,
+): string[] {
+  return splitList(poolParam || '', ',', formatVersion)
+    .map((name) => readName(name.trim(), formatVersion))
+    .filter(Boolean);
+}
+
+/**
+ * Format a participant pool for a link (and the form)
+ * @param pool - Names
+ * @returns Comma-separated names; only `,` and `\` are escaped so the list
+ *   stays easy to edit by hand
+ */
+export function formatPool(pool: string[]): string {
+  return pool.map((name) => escapeName(name, ',')).join(',');
+}
@@ -0,0 +1,169 @@
+/**
+ * 식당청소 뺑뺑이 (Dining Hall Cleaning Duty Team Randomizer)
+ * Versioned draw engines so shared result links keep reproducing their teams
+ */
+import * as engineV1 from './engine-v1';
+import {
+  createRandomGenerator,
+  determineRounds,
+  getMealLabel,
+  parseSeed,
+  randomizeSchedule,
+  randomizeTeams,
+} from './randomizer';
+
+// ===== TYPES =====
+
+/**
+ * Everything that decides a draw; an engine version must keep producing the
+ * same teams for the same settings
+ */
+export interface DrawEngine {
+  version: number; // Version number stored in links (`v` param)
+  parseSeed: typeof parseSeed;
+  determineRounds: typeof determineRounds;
+  getMealLabel: typeof getMealLabel;
+  createRandomGenerator: (seed: number) => () => number;
+  randomizeTeams: typeof randomizeTeams;
+  randomizeSchedule: typeof randomizeSchedule; // Date ranges (`end` param)
+  supportedParams: string[] | null; // URL params it understands (null = all)
+}
+
+// ===== VERSIONS =====
+
+// Engine used for new links
+export const LATEST_ENGINE_VERSION = 3;
+
+// Engine for links without a version, created before versioning existed
+export const ORIGINAL_ENGINE_VERSION = 1;
+
+// Search options v3 adds on top of the v2 solver; v2 must keep running
+// without them, so changes to the solver belong behind a new option
+const ENGINE_V3_OPTIONS = {
+  fewestFirst: true,
+  avoidBound: true,
+  diagnose: true,
+};
+
+const ENGINES: Record<number, DrawEngine> = {
+  // Greedy picker with xorshift; weekday/weekend rounds, no constraints
+  1: {
+    version: 1,
+    parseSeed: (seedInput) => {
+      const parsed = engineV1.parseSeed(seedInput);
+      return { ...parsed, seedText: String(parsed.seed) };
+    },
+    determineRounds: (parsedDate, userRounds) =>
+      engineV1.determineRounds(parsedDate, userRounds),
+    getMealLabel: (roundIndex, date) =>
+      engineV1.getMealLabel(roundIndex, engineV1.isWeekend(date)),
+    createRandomGenerator: engineV1.createRandomGenerator,
+    randomizeTeams: (params) => {
+      const { teamSize } = params;
+      if (typeof teamSize !== 'number' && new Set(teamSize).size > 1) {
+        return {
+          error: '엔진 v1은 식사별 팀 인원수를 지원하지 않습니다.',
+        };
+      }
+      return engineV1.randomizeTeams({
+        pool: params.pool,
+        teamSize: typeof teamSize === 'number' ? teamSize : teamSize[0],
+        rounds: params.rounds,
+        minAppearances: params.minAppearances,
+        maxAppearances: params.maxAppearances,
+        seed: params.seed,
+      });
+    },
+    randomizeSchedule: () => ({
+      error: '엔진 v1은 기간 계획을 지원하지 않습니다.',
+    }),
+    supportedParams: [
+      'pool',
+      'size',
+      'rounds',
+      'min',
+      'max',
+      'seed',
+      'disabled',
+      'swap',
+      'audit',
+      'v',
+      'fmt',
+      'cal',
+    ],
+  },
+
+  // Exact solver with sfc32, meal schedules, holidays and constraints
+  2: {
+    version: 2,
+    parseSeed,
+    determineRounds,
+    getMealLabel,
+    createRandomGenerator,
+    randomizeTeams,
+    randomizeSchedule,
+    supportedParams: null,
+  },
+
+  // v2 trying people with the fewest duties first, so appearances stay even,
+  // pruning picks that crowd out people who avoid each other and naming the
+  // rule that blocks a failed draw
+  3: {
+    version: 3,
+    parseSeed,
+    determineRounds,
+    getMealLabel,
+    createRandomGenerator,
+    randomizeTeams: (params) =>
+      randomizeTeams({ ...params, ...ENGINE_V3_OPTIONS }),
+    randomizeSchedule: (params) =>
+      randomizeSchedule({ ...params, ...ENGINE_V3_OPTIONS }),
+    supportedParams: null,
+  },
+};
+
+// ===== LOOKUP =====
+
+/**
+ * Parse the engine version of a link
+ * @param versionParam - `v` param from URL
+ * @returns Engine version (links without one use the original engine), or
+ *   error message for unknown versions
+ */
+export function parseEngineVersion(
+  versionParam: string | null,
+): number | { error: string } {
+  if (!versionParam) return ORIGINAL_ENGINE_VERSION;
+
+  const version = /^\d+$/.test(versionParam) ? parseInt(versionParam, 10) : NaN;
+  if (!(version in ENGINES)) {
+    return {
+      error: `지원하지 않는 엔진 버전입니다: v${versionParam} (최신: v${LATEST_ENGINE_VERSION})`,
+    };
+  }
+  return version;
+}
+
+/**
+ * Get the draw engine for a version
+ * @param version - Engine version (see `parseEngineVersion`)
+ * @returns Engine functions
+ */
+export function getDrawEngine(version: number): DrawEngine {
+  return ENGINES[version] ?? ENGINES[LATEST_ENGINE_VERSION];
+}
+
+/**
+ * Find URL params an engine can't reproduce
+ * @param version - Engine version of the link
+ * @param paramNames - Names of the link's URL params
+ * @returns Params with values the engine doesn't understand
+ */
+export function findUnsupportedParams(
+  version: number,
+  paramNames: string[],
+): string[] {
+  const { supportedParams } = getDrawEngine(version);
+  if (!supportedParams) return [];
+  return paramNames.filter((name) => !supportedParams.includes(name));
+}
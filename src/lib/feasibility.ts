@@ -0,0 +1,311 @@
+/**
+ * 식당청소 뺑뺑이 (Dining Hall Cleaning Duty Team Randomizer)
+ * Flow-based feasibility checks for filling every team within min/max limits
+ */
+
+// ===== TYPES =====
+
+/**
+ * Remaining slots to fill and the limits of each participant
+ */
+export interface FeasibilityProblem {
+  lower: number[]; // Appearances each person still needs (min)
+  upper: number[]; // Appearances each person can still take (max)
+  needs: number[]; // Open slots in each round
+  canServe: (person: number, round: number) => boolean; // Eligibility
+  roundDays?: number[]; // Day index of each round (for per-day limits)
+  dayLimit?: (person: number, day: number) => number; // Duties left per day
+  exclusiveGroups?: number[][]; // Disjoint sets of people of whom at most one serves a round
+}
+
+/**
+ * A set of rounds or people that can't be satisfied, with the counts proving it
+ */
+export interface Shortage {
+  indices: number[]; // Rounds (or people) in the shortage
+  required: number; // Slots they require
+  available: number; // Slots that can actually be provided
+}
+
+/**
+ * Edge in the residual graph of a flow network
+ */
+interface FlowEdge {
+  to: number;
+  capacity: number;
+  rev: number; // Index of the reverse edge in adjacency[to]
+}
+
+// ===== MAX FLOW =====
+
+/**
+ * Create a flow network with Dinic's algorithm operations
+ * @param nodeCount - Number of nodes in the network
+ * @returns Functions to add edges, run max flow and inspect the residual graph
+ */
+function createFlowNetwork(nodeCount: number) {
+  const adjacency: FlowEdge[][] = Array.from({ length: nodeCount }, () => []);
+
+  const addEdge = (from: number, to: number, capacity: number) => {
+    if (capacity <= 0) return;
+    adjacency[from].push({ to, capacity, rev: adjacency[to].length });
+    adjacency[to].push({
+      to: from,
+      capacity: 0,
+      rev: adjacency[from].length - 1,
+    });
+  };
+
+  // Breadth-first distances from the source over edges with capacity left
+  const getLevels = (source: number) => {
+    const levels = new Array<number>(nodeCount).fill(-1);
+    levels[source] = 0;
+    const queue = [source];
+    for (let head = 0; head < queue.length; head++) {
+      const node = queue[head];
+      for (const edge of adjacency[node]) {
+        if (edge.capacity > 0 && levels[edge.to] < 0) {
+          levels[edge.to] = levels[node] + 1;
+          queue.push(edge.to);
+        }
+      }
+    }
+    return levels;
+  };
+
+  const maxFlow = (source: number, sink: number) => {
+    let total = 0;
+    for (;;) {
+      const levels = getLevels(source);
+      if (levels[sink] < 0) return total;
+
+      const nextEdge = new Array<number>(nodeCount).fill(0);
+      const push = (node: number, amount: number): number => {
+        if (node === sink) return amount;
+        for (; nextEdge[node] < adjacency[node].length; nextEdge[node]++) {
+          const edge = adjacency[node][nextEdge[node]];
+          if (edge.capacity <= 0 || levels[edge.to] !== levels[node] + 1) {
+            continue;
+          }
+          const pushed = push(edge.to, Math.min(amount, edge.capacity));
+          if (pushed > 0) {
+            edge.capacity -= pushed;
+            adjacency[edge.to][edge.rev].capacity += pushed;
+            return pushed;
+          }
+        }
+        return 0;
+      };
+
+      let pushed: number;
+      while ((pushed = push(source, Infinity)) > 0) {
+        total += pushed;
+      }
+    }
+  };
+
+  // Nodes still reachable from the source after max flow (source side of min cut)
+  const getReachable = (source: number) =>
+    getLevels(source).map((level) => level >= 0);
+
+  return { addEdge, maxFlow, getReachable };
+}
+
+// ===== FEASIBILITY CHECKS =====
+
+/**
+ * Build a network from `source` through people (and their per-day limits and
+ * exclusive groups) to rounds; callers connect the source edges and the round
+ * edges
+ * @param problem - Remaining slots and limits
+ * @param reserved - Node ids kept free for the caller's sources and sinks
+ * @returns The network and functions mapping people and rounds to node ids
+ */
+function buildServiceNetwork(problem: FeasibilityProblem, reserved: number) {
+  const {
+    needs,
+    canServe,
+    roundDays,
+    dayLimit,
+    exclusiveGroups = [],
+  } = problem;
+  const people = problem.lower.length;
+  const days = roundDays && dayLimit ? Math.max(0, ...roundDays) + 1 : 0;
+
+  const personNode = (person: number) => reserved + person;
+  const roundNode = (round: number) => reserved + people + round;
+  const personDayNode = (person: number, day: number) =>
+    reserved + people + needs.length + person * days + day;
+  const exclusiveNode = (group: number, round: number) =>
+    reserved +
+    people +
+    needs.length +
+    people * days +
+    group * needs.length +
+    round;
+  const network = createFlowNetwork(
+    reserved +
+      people +
+      needs.length +
+      people * days +
+      exclusiveGroups.length * needs.length,
+  );
+
+  // Members of an exclusive group reach a round through a single seat
+  const exclusiveGroupOf = new Map<number, number>();
+  exclusiveGroups.forEach((group, index) => {
+    group.forEach((person) => exclusiveGroupOf.set(person, index));
+    needs.forEach((need, round) => {
+      if (need > 0)
+        network.addEdge(exclusiveNode(index, round), roundNode(round), 1);
+    });
+  });
+
+  for (let person = 0; person < people; person++) {
+    for (let day = 0; day < days; day++) {
+      network.addEdge(
+        personNode(person),
+        personDayNode(person, day),
+        dayLimit!(person, day),
+      );
+    }
+    for (let round = 0; round < needs.length; round++) {
+      if (needs[round] > 0 && canServe(person, round)) {
+        const group = exclusiveGroupOf.get(person);
+        network.addEdge(
+          days > 0
+            ? personDayNode(person, roundDays![round])
+            : personNode(person),
+          group === undefined ? roundNode(round) : exclusiveNode(group, round),
+          1,
+        );
+      }
+    }
+  }
+
+  return { network, personNode, roundNode };
+}
+
+/**
+ * Check whether the open slots can be filled while every person stays
+ * within their lower and upper limits
+ * @param problem - Remaining slots and limits
+ * @returns True if a valid filling exists
+ */
+export function isFeasible(problem: FeasibilityProblem): boolean {
+  const { lower, upper, needs } = problem;
+  if (lower.some((value, person) => value > upper[person])) {
+    return false;
+  }
+
+  // Circulation with lower bounds: person edges carry [lower, upper] and
+  // round edges carry exactly their needs
+  const source = 0;
+  const sink = 1;
+  const superSource = 2;
+  const superSink = 3;
+  const { network, personNode, roundNode } = buildServiceNetwork(problem, 4);
+
+  const totalLower = lower.reduce((sum, value) => sum + value, 0);
+  const totalNeeds = needs.reduce((sum, value) => sum + value, 0);
+
+  lower.forEach((value, person) => {
+    network.addEdge(source, personNode(person), upper[person] - value);
+    network.addEdge(superSource, personNode(person), value);
+  });
+  needs.forEach((need, round) => {
+    network.addEdge(roundNode(round), superSink, need);
+  });
+  network.addEdge(source, superSink, totalLower);
+  network.addEdge(superSource, sink, totalNeeds);
+  network.addEdge(sink, source, totalLower + totalNeeds);
+
+  return network.maxFlow(superSource, superSink) === totalLower + totalNeeds;
+}
+
+/**
+ * Push as many slots as possible from people (up to a capacity) to rounds
+ * @param problem - Remaining slots and limits
+ * @param capacity - Appearances each person may contribute
+ * @returns Flow size, and which people and rounds stay reachable from the source
+ */
+function fillSlots(problem: FeasibilityProblem, capacity: number[]) {
+  const source = 0;
+  const sink = 1;
+  const { network, personNode, roundNode } = buildServiceNetwork(problem, 2);
+
+  capacity.forEach((value, person) => {
+    network.addEdge(source, personNode(person), value);
+  });
+  problem.needs.forEach((need, round) => {
+    network.addEdge(roundNode(round), sink, need);
+  });
+
+  const flow = network.maxFlow(source, sink);
+  const reachable = network.getReachable(source);
+  return {
+    flow,
+    isPersonReachable: (person: number) => reachable[personNode(person)],
+    isRoundReachable: (round: number) => reachable[roundNode(round)],
+  };
+}
+
+/**
+ * Find rounds whose open slots outnumber what eligible people can still take
+ * @param problem - Remaining slots and limits
+ * @returns Rounds that can't be filled, or null if every round can be filled
+ */
+export function findRoundShortage(
+  problem: FeasibilityProblem,
+): Shortage | null {
+  const { upper, needs } = problem;
+  const totalNeeds = needs.reduce((sum, value) => sum + value, 0);
+  const filled = fillSlots(problem, upper);
+  if (filled.flow >= totalNeeds) {
+    return null;
+  }
+
+  // Rounds cut off from the source form a set Hall's condition rejects
+  const rounds = needs
+    .map((_, round) => round)
+    .filter((round) => needs[round] > 0 && !filled.isRoundReachable(round));
+  const shortNeeds = needs.map((need, round) =>
+    rounds.includes(round) ? need : 0,
+  );
+
+  return {
+    indices: rounds,
+    required: shortNeeds.reduce((sum, value) => sum + value, 0),
+    available: fillSlots({ ...problem, needs: shortNeeds }, upper).flow,
+  };
+}
+
+/**
+ * Find people whose remaining minimum appearances can't all be placed
+ * @param problem - Remaining slots and limits
+ * @returns People who can't reach their minimum, or null if all of them can
+ */
+export function findPersonShortage(
+  problem: FeasibilityProblem,
+): Shortage | null {
+  const { lower } = problem;
+  const totalLower = lower.reduce((sum, value) => sum + value, 0);
+  const filled = fillSlots(problem, lower);
+  if (filled.flow >= totalLower) {
+    return null;
+  }
+
+  // People still reachable from the source form a set Hall's condition rejects
+  const shortPeople = lower
+    .map((_, person) => person)
+    .filter((person) => lower[person] > 0 && filled.isPersonReachable(person));
+  const shortLower = lower.map((value, person) =>
+    shortPeople.includes(person) ? value : 0,
+  );
+
+  return {
+    indices: shortPeople,
+    required: shortLower.reduce((sum, value) => sum + value, 0),
+    available: fillSlots(problem, shortLower).flow,
+  };
+}
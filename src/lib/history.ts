@@ -0,0 +1,164 @@
+/**
+ * 식당청소 뺑뺑이 (Dining Hall Cleaning Duty Team Randomizer)
+ * Undoable history of manual edits on the result page
+ */
+
+// ===== TYPES =====
+
+/**
+ * Manual edits of a result link, as their URL params
+ */
+export interface Customizations {
+  disabled: string | null;
+  swap: string | null;
+}
+
+/**
+ * One edit, with the link params on both sides and what it changed
+ */
+export interface EditEntry {
+  label: string; // The action, e.g. "저녁: 홍길동 제외"
+  changes: string[]; // Resulting team changes, a line per round
+  before: Customizations;
+  after: Customizations;
+}
+
+/**
+ * Edits made on a result page; entries from `position` on have been undone
+ */
+export interface EditHistory {
+  entries: EditEntry[];
+  position: number;
+}
+
+export const EMPTY_HISTORY: EditHistory = { entries: [], position: 0 };
+
+// ===== PARAMS =====
+
+const CUSTOMIZATION_PARAMS = ['disabled', 'swap'] as const;
+
+/**
+ * Read the manual edits of a result link
+ * @param searchParams - Params of the result link
+ * @returns Edit params (null when absent)
+ */
+export function readCustomizations(
+  searchParams: URLSearchParams,
+): Customizations {
+  return {
+    disabled: searchParams.get('disabled'),
+    swap: searchParams.get('swap'),
+  };
+}
+
+/**
+ * Replace the manual edits of a result link
+ * @param searchParams - Params of the result link
+ * @param customizations - Edit params to set (null removes them)
+ * @returns New params; the draw settings are kept as they are
+ */
+export function withCustomizations(
+  searchParams: URLSearchParams,
+  customizations: Customizations,
+): URLSearchParams {
+  const newParams = new URLSearchParams(searchParams.toString());
+  CUSTOMIZATION_PARAMS.forEach((name) => {
+    const value = customizations[name];
+    if (value) {
+      newParams.set(name, value);
+    } else {
+      newParams.delete(name);
+    }
+  });
+  return newParams;
+}
+
+/**
+ * Check whether two sets of edits are the same
+ */
+export function isSameCustomizations(
+  a: Customizations,
+  b: Customizations,
+): boolean {
+  return CUSTOMIZATION_PARAMS.every(
+    (name) => (a[name] || null) === (b[name] || null),
+  );
+}
+
+// ===== HISTORY =====
+
+/**
+ * Add an edit, dropping edits that were undone before it
+ * @returns History with the edit as the latest step
+ */
+export function recordEdit(
+  history: EditHistory,
+  entry: EditEntry,
+): EditHistory {
+  const entries = [...history.entries.slice(0, history.position), entry];
+  return { entries, position: entries.length };
+}
+
+/**
+ * Step back one edit
+ * @returns History and the edits to restore, or null when nothing is left
+ */
+export function undoEdit(
+  history: EditHistory,
+): { history: EditHistory; customizations: Customizations } | null {
+  if (history.position === 0) return null;
+
+  const entry = history.entries[history.position - 1];
+  return {
+    history: { ...history, position: history.position - 1 },
+    customizations: entry.before,
+  };
+}
+
+/**
+ * Step forward one undone edit
+ * @returns History and the edits to restore, or null when nothing is undone
+ */
+export function redoEdit(
+  history: EditHistory,
+): { history: EditHistory; customizations: Customizations } | null {
+  if (history.position >= history.entries.length) return null;
+
+  const entry = history.entries[history.position];
+  return {
+    history: { ...history, position: history.position + 1 },
+    customizations: entry.after,
+  };
+}
+
+// ===== DESCRIPTIONS =====
+
+/**
+ * Describe how the teams changed, e.g. "저녁: 홍길동 제외 → 김철수 투입"
+ * @param before - Teams before the edit
+ * @param after - Teams after the edit
+ * @param getRoundTitle - Title of a round
+ * @returns A line per changed round
+ */
+export function describeTeamChanges(
+  before: string[][],
+  after: string[][],
+  getRoundTitle: (round: number) => string,
+): string[] {
+  return after.flatMap((team, round) => {
+    const previous = before[round] ?? [];
+    const removed = previous.filter((person) => !team.includes(person));
+    const added = team.filter((person) => !previous.includes(person));
+
+    if (removed.length === 0 && added.length === 0) return [];
+
+    const title = getRoundTitle(round);
+    if (added.length === 0) {
+      return [`${title}: ${removed.join(', ')} 제외 (대체 인원 없음)`];
+    }
+    if (removed.length === 0) {
+      return [`${title}: ${added.join(', ')} 투입`];
+    }
+    return [`${title}: ${removed.join(', ')} 제외 → ${added.join(', ')} 투입`];
+  });
+}
@@ -0,0 +1,197 @@
+/**
+ * 식당청소 뺑뺑이 (Dining Hall Cleaning Duty Team Randomizer)
+ * Offline calendar of Korean public holidays
+ */
+import dayjs from 'dayjs';
+
+// ===== HOLIDAY TABLES =====
+
+// Public holidays by date (YYYYMMDD), including substitute and temporary
+// holidays. Lunar holidays don't follow a fixed rule, so each year is listed
+// explicitly; dates outside the table are treated as regular days
+const HOLIDAYS_2024_2027: Record<string, string> = {
+  // 2024
+  '20240101': '신정',
+  '20240209': '설날 연휴',
+  '20240210': '설날',
+  '20240211': '설날 연휴',
+  '20240212': '대체공휴일(설날)',
+  '20240301': '삼일절',
+  '20240410': '국회의원 선거일',
+  '20240505': '어린이날',
+  '20240506': '대체공휴일(어린이날)',
+  '20240515': '부처님오신날',
+  '20240606': '현충일',
+  '20240815': '광복절',
+  '20240916': '추석 연휴',
+  '20240917': '추석',
+  '20240918': '추석 연휴',
+  '20241001': '국군의 날',
+  '20241003': '개천절',
+  '20241009': '한글날',
+  '20241225': '성탄절',
+
+  // 2025
+  '20250101': '신정',
+  '20250127': '임시공휴일',
+  '20250128': '설날 연휴',
+  '20250129': '설날',
+  '20250130': '설날 연휴',
+  '20250301': '삼일절',
+  '20250303': '대체공휴일(삼일절)',
+  '20250505': '어린이날·부처님오신날',
+  '20250506': '대체공휴일(어린이날·부처님오신날)',
+  '20250603': '대통령 선거일',
+  '20250606': '현충일',
+  '20250815': '광복절',
+  '20251003': '개천절',
+  '20251005': '추석 연휴',
+  '20251006': '추석',
+  '20251007': '추석 연휴',
+  '20251008': '대체공휴일(추석)',
+  '20251009': '한글날',
+  '20251225': '성탄절',
+
+  // 2026
+  '20260101': '신정',
+  '20260216': '설날 연휴',
+  '20260217': '설날',
+  '20260218': '설날 연휴',
+  '20260301': '삼일절',
+  '20260302': '대체공휴일(삼일절)',
+  '20260505': '어린이날',
+  '20260524': '부처님오신날',
+  '20260525': '대체공휴일(부처님오신날)',
+  '20260603': '전국동시지방선거일',
+  '20260606': '현충일',
+  '20260815': '광복절',
+  '20260817': '대체공휴일(광복절)',
+  '20260924': '추석 연휴',
+  '20260925': '추석',
+  '20260926': '추석 연휴',
+  '20261003': '개천절',
+  '20261005': '대체공휴일(개천절)',
+  '20261009': '한글날',
+  '20261225': '성탄절',
+
+  // 2027
+  '20270101': '신정',
+  '20270206': '설날 연휴',
+  '20270207': '설날',
+  '20270208': '설날 연휴',
+  '20270209': '대체공휴일(설날)',
+  '20270301': '삼일절',
+  '20270505': '어린이날',
+  '20270513': '부처님오신날',
+  '20270606': '현충일',
+  '20270815': '광복절',
+  '20270816': '대체공휴일(광복절)',
+  '20270914': '추석 연휴',
+  '20270915': '추석',
+  '20270916': '추석 연휴',
+  '20271003': '개천절',
+  '20271004': '대체공휴일(개천절)',
+  '20271009': '한글날',
+  '20271011': '대체공휴일(한글날)',
+  '20271225': '성탄절',
+  '20271227': '대체공휴일(성탄절)',
+};
+
+// ===== CALENDAR VERSIONS =====
+
+/**
+ * Param holding the holiday calendar of a link
+ */
+export const HOLIDAY_CALENDAR_PARAM = 'cal';
+
+// Holidays decide which meals a day has, so links keep the calendar they were
+// drawn with. Never edit a released calendar: copy it into a new version with
+// the added year or fix and point LATEST_HOLIDAY_CALENDAR at it
+const HOLIDAY_CALENDARS: Record<number, Record<string, string>> = {
+  1: HOLIDAYS_2024_2027,
+};
+
+// Calendar used for new links
+export const LATEST_HOLIDAY_CALENDAR = 1;
+
+// Calendar for links without one, created before calendars were versioned
+export const ORIGINAL_HOLIDAY_CALENDAR = 1;
+
+/**
+ * Parse the holiday calendar of a link
+ * @param calendarParam - `cal` param from URL
+ * @returns Calendar version (links without one use the original calendar),
+ *   or error message for unknown versions
+ */
+export function parseHolidayCalendar(
+  calendarParam: string | null,
+): number | { error: string } {
+  if (!calendarParam) return ORIGINAL_HOLIDAY_CALENDAR;
+
+  const version = /^\d+$/.test(calendarParam)
+    ? parseInt(calendarParam, 10)
+    : NaN;
+  if (!HOLIDAY_CALENDARS[version]) {
+    return {
+      error: `지원하지 않는 공휴일 달력입니다: ${calendarParam} (최신: ${LATEST_HOLIDAY_CALENDAR})`,
+    };
+  }
+  return version;
+}
+
+// First and last year a calendar lists; it has to be extended before the last
+const getHolidayYears = (calendar: number) => {
+  const years = Object.keys(HOLIDAY_CALENDARS[calendar]).map((key) =>
+    parseInt(key.slice(0, 4), 10),
+  );
+  return { first: Math.min(...years), last: Math.max(...years) };
+};
+
+// ===== LOOKUP =====
+
+/**
+ * Get the name of the public holiday on a date
+ * @param date - Date to check
+ * @param calendar - Holiday calendar version of the link
+ * @returns Holiday name, or null if the date isn't a public holiday
+ */
+export function getHolidayName(date: Date, calendar: number): string | null {
+  return HOLIDAY_CALENDARS[calendar][dayjs(date).format('YYYYMMDD')] ?? null;
+}
+
+/**
+ * Check if a date is a public holiday
+ * @param date - Date to check
+ * @param calendar - Holiday calendar version of the link
+ * @returns True if the date is in the holiday table
+ */
+export function isHoliday(date: Date, calendar: number): boolean {
+  return getHolidayName(date, calendar) !== null;
+}
+
+/**
+ * Warn about days the holiday table doesn't cover
+ * @param startDate - First day of the draw
+ * @param endDate - Last day of a range (null for a single day)
+ * @param calendar - Holiday calendar version of the link
+ * @returns Notice naming the uncovered years, or null if every day is covered
+ */
+export function getHolidayCoverageNotice(
+  startDate: Date,
+  endDate: Date | null,
+  calendar: number,
+): string | null {
+  const firstYear = dayjs(startDate).year();
+  const lastYear = dayjs(endDate ?? startDate).year();
+  const covered = getHolidayYears(calendar);
+
+  const uncovered: number[] = [];
+  for (let year = firstYear; year <= lastYear; year++) {
+    if (year < covered.first || year > covered.last) {
+      uncovered.push(year);
+    }
+  }
+  if (uncovered.length === 0) return null;
+
+  return `공휴일 달력은 ${covered.first}~${covered.last}년만 담고 있어 ${uncovered.join(', ')}년 공휴일은 반영되지 않습니다. 공휴일이 있으면 식사 일정에 날짜별로 넣어 주세요 (예: 20280101=브런치,저녁).`;
+}
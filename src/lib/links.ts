@@ -0,0 +1,119 @@
+/**
+ * 식당청소 뺑뺑이 (Dining Hall Cleaning Duty Team Randomizer)
+ * Compact result links: all settings compressed into a single param
+ */
+
+// ===== ENCODING =====
+
+/**
+ * Param holding the compressed settings of a compact link
+ */
+export const COMPACT_PARAM = 'c';
+
+// Most bytes a compact link may expand to; real settings take a few KB, and
+// a small `c` can inflate to far more than the server should hold
+const MAX_EXPANDED_BYTES = 64 * 1024;
+
+const CORRUPTED_LINK_ERROR = '압축된 링크가 손상되어 설정을 읽을 수 없습니다.';
+
+// Compress bytes (deflate-raw)
+const compress = async (bytes: Uint8Array<ArrayBuffer>) =>
+  new Uint8Array(
+    await new Response(
+      new Blob([bytes])
+        .stream()
+        .pipeThrough(new CompressionStream('deflate-raw')),
+    ).arrayBuffer(),
+  );
+
+// Decompress bytes (deflate-raw), or null once the output passes
+// MAX_EXPANDED_BYTES
+const decompress = async (bytes: Uint8Array<ArrayBuffer>) => {
+  const reader = new Blob([bytes])
+    .stream()
+    .pipeThrough(new DecompressionStream('deflate-raw'))
+    .getReader();
+
+  const chunks: Uint8Array<ArrayBuffer>[] = [];
+  let length = 0;
+  for (;;) {
+    const { done, value } = await reader.read();
+    if (done) break;
+
+    length += value.byteLength;
+    if (length > MAX_EXPANDED_BYTES) {
+      await reader.cancel();
+      return null;
+    }
+    chunks.push(value);
+  }
+  return new Uint8Array(await new Blob(chunks).arrayBuffer());
+};
+
+const toBase64Url = (bytes: Uint8Array) =>
+  btoa(String.fromCharCode(...bytes))
+    .replace(/\+/g, '-')
+    .replace(/\//g, '_')
+    .replace(/=+$/, '');
+
+const fromBase64Url = (text: string) =>
+  Uint8Array.from(atob(text.replace(/-/g, '+').replace(/_/g, '/')), (char) =>
+    char.charCodeAt(0),
+  );
+
+/**
+ * Compress the params of a result link for sharing
+ * @param searchParams - Plain params of the result link
+ * @returns Params with a single `c` (deflate, base64url), or the plain params
+ *   when they are already shorter or compression fails (e.g. a browser
+ *   without CompressionStream)
+ */
+export async function compactParams(
+  searchParams: URLSearchParams,
+): Promise<URLSearchParams> {
+  const plain = searchParams.toString();
+  let compressed: Uint8Array;
+  try {
+    compressed = await compress(new TextEncoder().encode(plain));
+  } catch (error) {
+    console.error('Failed to compress link:', error);
+    return new URLSearchParams(plain);
+  }
+
+  const compact = new URLSearchParams({
+    [COMPACT_PARAM]: toBase64Url(compressed),
+  });
+  return compact.toString().length < plain.length
+    ? compact
+    : new URLSearchParams(plain);
+}
+
+/**
+ * Restore the plain params of a result link
+ * @param searchParams - Params of a compact or plain link
+ * @returns Plain params (other params next to `c` override the compressed
+ *   ones), or error message when `c` can't be decoded or expands past
+ *   MAX_EXPANDED_BYTES
+ */
+export async function expandParams(
+  searchParams: URLSearchParams,
+): Promise<URLSearchParams | { error: string }> {
+  const compact = searchParams.get(COMPACT_PARAM);
+  if (compact === null) return searchParams;
+
+  let expanded: URLSearchParams;
+  try {
+    const bytes = await decompress(fromBase64Url(compact));
+    if (!bytes) return { error: CORRUPTED_LINK_ERROR };
+    expanded = new URLSearchParams(
+      new TextDecoder('utf-8', { fatal: true }).decode(bytes),
+    );
+  } catch {
+    return { error: CORRUPTED_LINK_ERROR };
+  }
+
+  searchParams.forEach((value, name) => {
+    if (name !== COMPACT_PARAM) expanded.set(name, value);
+  });
+  return expanded;
+}
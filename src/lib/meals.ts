@@ -0,0 +1,143 @@
+/**
+ * 식당청소 뺑뺑이 (Dining Hall Cleaning Duty Team Randomizer)
+ * Meal schedules that decide which meals need a team on each day
+ */
+import dayjs from 'dayjs';
+import { isHoliday, LATEST_HOLIDAY_CALENDAR } from './holidays';
+
+// ===== TYPES =====
+
+/**
+ * Named meals for each day of the week and for special dates
+ */
+export interface MealSchedule {
+  weekdays: string[][]; // Meals for each day of the week (0 = Sunday)
+  holidays: string[] | null; // Meals on public holidays (null = as Sunday)
+  dates: Record<string, string[]>; // Meals on special dates (YYYYMMDD)
+  holidayCalendar: number; // Holiday calendar version (`cal` param)
+}
+
+// ===== DEFAULT SCHEDULE =====
+
+// Weekdays serve three meals, weekends and holidays brunch and dinner
+export const DEFAULT_MEAL_SCHEDULE: MealSchedule = {
+  weekdays: [
+    ['브런치', '저녁'],
+    ['아침', '점심', '저녁'],
+    ['아침', '점심', '저녁'],
+    ['아침', '점심', '저녁'],
+    ['아침', '점심', '저녁'],
+    ['아침', '점심', '저녁'],
+    ['브런치', '저녁'],
+  ],
+  holidays: null,
+  dates: {},
+  holidayCalendar: LATEST_HOLIDAY_CALENDAR,
+};
+
+// Day keys accepted in schedule entries, mapped to days of the week
+const DAY_KEYS: Record<string, number[]> = {
+  평일: [1, 2, 3, 4, 5],
+  주말: [0, 6],
+  일: [0],
+  월: [1],
+  화: [2],
+  수: [3],
+  목: [4],
+  금: [5],
+  토: [6],
+};
+
+// ===== PARSING =====
+
+/**
+ * Parse a meal schedule from URL or form input
+ * @param mealsParam - Entries in `key=meal,meal` format, separated by `;` or
+ *   new lines; keys are 평일, 주말, 공휴일, a day (월 ~ 일) or a date
+ *   (YYYYMMDD) and later entries override earlier ones
+ * @returns Default schedule with the entries applied, or error message naming
+ *   the malformed entry
+ */
+export function parseMealSchedule(
+  mealsParam: string | null,
+): MealSchedule | { error: string } {
+  const schedule: MealSchedule = {
+    weekdays: DEFAULT_MEAL_SCHEDULE.weekdays.map((meals) => [...meals]),
+    holidays: null,
+    dates: {},
+    holidayCalendar: DEFAULT_MEAL_SCHEDULE.holidayCalendar,
+  };
+  if (!mealsParam) return schedule;
+
+  for (const entryData of mealsParam.split(/[;\n]/)) {
+    const entry = entryData.trim();
+    if (!entry) continue;
+
+    const [key, mealList] = entry.split('=').map((part) => part.trim());
+    const meals = (mealList || '')
+      .split(',')
+      .map((meal) => meal.trim())
+      .filter(Boolean);
+
+    const isDate = /^\d{8}$/.test(key) && dayjs(key).isValid();
+    if (
+      (!isDate && key !== '공휴일' && !(key in DAY_KEYS)) ||
+      meals.length === 0 ||
+      new Set(meals).size !== meals.length
+    ) {
+      return {
+        error: `식사 일정 형식이 올바르지 않습니다: '${entry}' (예: 평일=아침,점심,저녁)`,
+      };
+    }
+
+    if (isDate) {
+      schedule.dates[key] = meals;
+    } else if (key === '공휴일') {
+      schedule.holidays = meals;
+    } else {
+      DAY_KEYS[key].forEach((day) => {
+        schedule.weekdays[day] = meals;
+      });
+    }
+  }
+  return schedule;
+}
+
+// ===== LOOKUP =====
+
+/**
+ * Get the meals that need a team on a date
+ * @param date - Day to look up
+ * @param schedule - Meal schedule
+ * @returns Meal labels in serving order (special dates first, then public
+ *   holidays, then the day of the week)
+ */
+export function getMealsForDate(
+  date: Date,
+  schedule: MealSchedule = DEFAULT_MEAL_SCHEDULE,
+): string[] {
+  const day = dayjs(date);
+  const special = schedule.dates[day.format('YYYYMMDD')];
+  if (special) return special;
+
+  // Holidays run like weekends unless they have their own meals
+  if (isHoliday(date, schedule.holidayCalendar)) {
+    return schedule.holidays ?? schedule.weekdays[0];
+  }
+  return schedule.weekdays[day.day()];
+}
+
+/**
+ * Get the meal order that per-meal team sizes follow
+ * @param schedule - Meal schedule
+ * @returns Meals of the weekday with the most meals (earliest from Monday)
+ */
+export function getMealOrder(
+  schedule: MealSchedule = DEFAULT_MEAL_SCHEDULE,
+): string[] {
+  return [1, 2, 3, 4, 5, 6, 0]
+    .map((day) => schedule.weekdays[day])
+    .reduce((busiest, meals) =>
+      meals.length > busiest.length ? meals : busiest,
+    );
+}
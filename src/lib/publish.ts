@@ -0,0 +1,108 @@
+/**
+ * 식당청소 뺑뺑이 (Dining Hall Cleaning Duty Team Randomizer)
+ * Server-side publishing of drawn results to the configured chat webhook
+ */
+import { createHash, timingSafeEqual } from 'node:crypto';
+import { NextResponse } from 'next/server';
+import { drawFromParams, type DrawOutcome } from './draw';
+import { compactParams, expandParams } from './links';
+import {
+  formatWebhookMessage,
+  sendWebhook,
+  validateWebhookTemplate,
+  DEFAULT_WEBHOOK_TEMPLATE,
+} from './webhook';
+
+// ===== REQUESTS =====
+
+// Error response with a machine-readable code and a message for the page
+export const errorResponse = (code: string, message: string, status: number) =>
+  NextResponse.json({ error: { code, message } }, { status });
+
+/**
+ * Check a request's `Authorization: Bearer <secret>` header
+ * @param request - Incoming request
+ * @param secret - Shared secret from the server's environment
+ * @returns True if the request carries the secret
+ */
+export function isAuthorized(request: Request, secret: string): boolean {
+  // Compare digests so neither the length nor the content leaks through timing
+  const digest = (text: string) => createHash('sha256').update(text).digest();
+  return timingSafeEqual(
+    digest(request.headers.get('authorization') ?? ''),
+    digest(`Bearer ${secret}`),
+  );
+}
+
+// ===== PUBLISHING =====
+
+/**
+ * Draw a result link and post it to the configured webhook
+ * @param params - Params of the result link (plain or compact)
+ * @param origin - Address of the app, for the link in the message
+ * @param template - Message template from the result page (checked against
+ *   the known placeholders; defaults to `WEBHOOK_TEMPLATE`)
+ * @returns Posted message, or error response
+ */
+export async function publishDraw(
+  params: URLSearchParams,
+  origin: string,
+  template?: string,
+) {
+  const webhookUrl = process.env.WEBHOOK_URL;
+  if (!webhookUrl) {
+    return errorResponse(
+      'not_configured',
+      '웹훅 주소(WEBHOOK_URL)가 설정되지 않았습니다.',
+      503,
+    );
+  }
+
+  const templateError = template ? validateWebhookTemplate(template) : null;
+  if (templateError) {
+    return errorResponse('invalid_template', templateError, 400);
+  }
+
+  const searchParams = await expandParams(params);
+  if ('error' in searchParams) {
+    return errorResponse('invalid_params', searchParams.error, 400);
+  }
+
+  // A crash in the draw is reported like any other failed draw
+  let outcome: DrawOutcome;
+  try {
+    outcome = drawFromParams(searchParams);
+  } catch (error) {
+    console.error('Error drawing teams:', error);
+    return errorResponse(
+      'draw_failed',
+      '팀을 뽑는 중 오류가 발생했습니다. 설정을 확인하고 다시 시도해 주세요.',
+      422,
+    );
+  }
+  if (outcome.error) {
+    return outcome.infeasible
+      ? errorResponse('infeasible', outcome.error, 422)
+      : errorResponse('invalid_params', outcome.error, 400);
+  }
+
+  const text = formatWebhookMessage(
+    template || process.env.WEBHOOK_TEMPLATE || DEFAULT_WEBHOOK_TEMPLATE,
+    outcome,
+    `${origin}/result?${await compactParams(searchParams)}`,
+  );
+  if (!text) {
+    return errorResponse(
+      'sealed',
+      '공정성 증명 비밀값이 공개되지 않아 팀을 보낼 수 없습니다.',
+      403,
+    );
+  }
+
+  const sent = await sendWebhook(webhookUrl, text);
+  if ('error' in sent) {
+    return errorResponse('webhook_failed', sent.error, 502);
+  }
+
+  return NextResponse.json({ text });
+}
@@ -4,6 +4,34 @@
  */
 import dayjs from 'dayjs';
 import 'dayjs/locale/ko'; // Import Korean locale
+import {
+  buildAvoidCliques,
+  buildRequiredGroups,
+  describeSpacingRules,
+  hasAvoidConflict,
+  hasSpacingRules,
+  isTooClose,
+  isUnavailable,
+  validatePairConstraints,
+  NO_SPACING_RULES,
+  type Pair,
+  type SpacingRules,
+  type Unavailability,
+} from './constraints';
+import {
+  findPersonShortage,
+  findRoundShortage,
+  isFeasible,
+  type FeasibilityProblem,
+} from './feasibility';
+import {
+  DEFAULT_MEAL_SCHEDULE,
+  getMealOrder,
+  getMealsForDate,
+  type MealSchedule,
+} from './meals';
+import { getHolidayName, isHoliday } from './holidays';
+import { escapeName, readName, splitEntries, splitList } from './encoding';
 
 // Initialize dayjs with Korean locale
 dayjs.locale('ko');
@@ -15,11 +43,22 @@ dayjs.locale('ko');
  */
 interface RandomizationParams {
   pool: string[]; // List of participant names
-  teamSize: number; // Number of members per team
+  teamSize: number | number[]; // Members per team, or per round
   rounds: number; // Number of rounds to generate
   minAppearances: number; // Minimum times a person should be selected
   maxAppearances: number; // Maximum times a person can be selected
   seed: number; // Random seed for deterministic results
+  avoidPairs?: Pair[]; // Pairs who must never be on the same team
+  requirePairs?: Pair[]; // Pairs who must always be on the same team
+  unavailable?: string[][]; // People who can't be drawn in each round
+  roundLabels?: string[]; // Names of the rounds used in error messages
+  spacing?: SpacingRules; // Rules that keep a person's duties apart
+  roundDays?: number[]; // Day index of each round (default: all the same day)
+  fewestFirst?: boolean; // Try people with the fewest duties first (engine v3)
+  avoidBound?: boolean; // Prune picks with the avoid-pair bound (engine v3)
+  diagnose?: boolean; // Rerun a failed draw without each rule to name the blocking one (engine v3)
+  searchSteps?: number; // Step budget (default: MAX_SEARCH_STEPS)
+  audit?: boolean; // Record every step of the search for the audit view
 }
 
 /**
@@ -28,96 +67,333 @@ interface RandomizationParams {
 interface RandomizationResult {
   teams: string[][]; // Teams for each round
   appearances: Record<string, number>; // Number of times each person appears
+  trace?: DrawStep[]; // Steps of the search (audit mode only)
 }
 
+/**
+ * A step of the team search, recorded so a draw can be checked by hand
+ */
+export type DrawStep =
+  | {
+      type: 'order'; // Candidate order fixed when entering a round
+      round: number;
+      underMinimum: string[][]; // Groups under min appearances, shuffled
+      others: string[][]; // Remaining groups, shuffled
+      fewestFirst: boolean; // Each list sorted by appearances after shuffling
+    }
+  | {
+      type: 'pick'; // Group added to the round's team
+      round: number;
+      group: string[];
+      eligible: string[][]; // Groups that could join, in candidate order
+    }
+  | {
+      type: 'reject'; // Group skipped: the rest could no longer be filled
+      round: number;
+      group: string[];
+    }
+  | {
+      type: 'undo'; // Earlier pick taken back after a dead end
+      round: number;
+      group: string[];
+    };
+
+/**
+ * Parameters for multi-day schedule randomization
+ */
+interface ScheduleParams
+  extends Omit<
+    RandomizationParams,
+    | 'teamSize'
+    | 'rounds'
+    | 'maxAppearances'
+    | 'unavailable'
+    | 'roundDays'
+    | 'roundLabels'
+  > {
+  teamSize: number | number[]; // Members per team, or per meal of each day
+  startDate: Date; // First day of the range (inclusive)
+  endDate: Date; // Last day of the range (inclusive)
+  userRounds: number | null; // Rounds per day override (null = by weekday)
+  maxAppearances: number | null; // Max over the whole range (null = balanced)
+  unavailability?: Unavailability[]; // Leave, duty and training entries
+  mealSchedule?: MealSchedule; // Meals served on each day
+}
+
+/**
+ * A single day within a generated schedule
+ */
+export interface ScheduleDay {
+  date: Date; // Day of the schedule
+  offset: number; // Index of the day's first round in the flattened teams
+  rounds: number; // Number of rounds (meals) on this day
+  meals: string[]; // Label of each round
+  teams: string[][]; // Teams for each round of the day
+}
+
+/**
+ * Inputs mixed into a seed so no single person controls the draw
+ */
+interface SeedMixins {
+  secret?: string | null; // Secret of a commit-reveal draw
+  contributions?: string[]; // Numbers or phrases from several participants
+}
+
+/**
+ * A participant's share of a multi-party seed
+ */
+export interface SeedContribution {
+  name: string | null; // Who contributed (if given)
+  value: string; // Number or phrase mixed into the seed
+}
+
+/**
+ * Result of successful schedule randomization
+ */
+interface ScheduleResult extends RandomizationResult {
+  days: ScheduleDay[]; // Teams grouped by day
+  maxAppearances: number; // Max appearances applied to the range
+  unavailable: string[][]; // People who couldn't be drawn in each round
+  teamSizes: number[]; // Members drawn in each round
+}
+
+// Longest date range that can be planned at once
+export const MAX_SCHEDULE_DAYS = 31;
+
+// Picks the team search may try before giving up
+const MAX_SEARCH_STEPS = 20000;
+
+// Most team slots a single draw may fill; each pick checks every open slot,
+// so larger draws would take too long
+export const MAX_TOTAL_SLOTS = 500;
+
+// Picks each diagnostic run may try when finding the rule that blocks a draw
+const DIAGNOSIS_STEPS = 2000;
+
 // ===== RANDOM NUMBER GENERATION =====
 
+/**
+ * Create a splitmix32 stream, used to spread a seed over the generator state
+ * @param seed - 32-bit starting state
+ * @returns Function that produces well-mixed 32-bit unsigned integers
+ */
+function createSeedMixer(seed: number) {
+  let state = seed | 0;
+  return function () {
+    state = (state + 0x9e3779b9) | 0;
+    let z = state;
+    z = Math.imul(z ^ (z >>> 16), 0x85ebca6b);
+    z = Math.imul(z ^ (z >>> 13), 0xc2b2ae35);
+    return (z ^ (z >>> 16)) >>> 0;
+  };
+}
+
 /**
  * Creates a seeded random number generator for deterministic randomization
- * @param seed - Number to seed the random generator
+ * @param seed - Number to seed the random generator (all bits of a safe
+ *   integer are used, so nearby seeds still give unrelated streams)
  * @returns Function that produces random numbers between 0 and 1
  */
 export function createRandomGenerator(seed: number) {
-  let state = seed;
+  // Mix the low and high 32 bits of the seed into four state words
+  const low = seed >>> 0;
+  const high = Math.floor(seed / 4294967296) >>> 0;
+  const mix = createSeedMixer(low ^ Math.imul(high, 0x85ebca6b));
+  let a = mix();
+  let b = mix();
+  let c = mix();
+  let d = mix() ^ high;
 
-  // Simple xorshift algorithm for pseudo-random number generation
-  return function () {
-    state ^= state << 13;
-    state ^= state >>> 17;
-    state ^= state << 5;
+  // sfc32 (Small Fast Counting) generator; the counter in `d` keeps the
+  // stream from ever collapsing to zero
+  const next = function () {
+    const t = (((a + b) | 0) + d) | 0;
+    d = (d + 1) | 0;
+    a = b ^ (b >>> 9);
+    b = (c + (c << 3)) | 0;
+    c = (c << 21) | (c >>> 11);
+    c = (c + t) | 0;
     // Convert to a number between 0 and 1
-    return (state >>> 0) / 4294967296;
+    return (t >>> 0) / 4294967296;
   };
+
+  // Discard the first outputs so the state is fully mixed
+  for (let i = 0; i < 12; i++) {
+    next();
+  }
+  return next;
+}
+
+/**
+ * Hash a text seed into a number deterministically (cyrb53)
+ * @param text - Seed text, e.g. "2026-10-19-3소대"
+ * @returns 53-bit unsigned integer seed
+ */
+export function hashSeed(text: string): number {
+  let h1 = 0xdeadbeef;
+  let h2 = 0x41c6ce57;
+  for (let i = 0; i < text.length; i++) {
+    const ch = text.charCodeAt(i);
+    h1 = Math.imul(h1 ^ ch, 2654435761);
+    h2 = Math.imul(h2 ^ ch, 1597334677);
+  }
+  h1 = Math.imul(h1 ^ (h1 >>> 16), 2246822507);
+  h1 ^= Math.imul(h2 ^ (h2 >>> 13), 3266489909);
+  h2 = Math.imul(h2 ^ (h2 >>> 16), 2246822507);
+  h2 ^= Math.imul(h1 ^ (h1 >>> 13), 3266489909);
+  return 4294967296 * (2097151 & h2) + (h1 >>> 0);
 }
 
 // ===== SEED HANDLING =====
 
 /**
  * Parse seed input and determine if it's a date
- * @param seedInput - String input for seed (can be YYYYMMDD format date)
- * @returns Object with seed number, date flag, and parsed date
+ * @param seedInput - String input for seed (YYYYMMDD date, integer or any text)
+ * @param mixins - Secret and contributions mixed into the seed (if any)
+ * @returns Object with seed number, the text it came from, date flag, and
+ *   parsed date
  */
-export function parseSeed(seedInput: string | null): {
+export function parseSeed(
+  seedInput: string | null,
+  mixins: SeedMixins = {},
+): {
   seed: number;
+  seedText: string;
   isDateSeed: boolean;
   parsedDate: Date | null;
 } {
+  const input = seedInput?.trim() ?? '';
+
+  const { secret = null, contributions = [] } = mixins;
+
+  // Contributions (in any order) and a revealed secret replace the seed with
+  // a hash of everything, so nobody can predict or steer the draw alone
+  const withSecret = (seed: number, seedText: string) => {
+    if (!secret && contributions.length === 0) return seed;
+
+    let text = seedText;
+    if (contributions.length > 0) {
+      text = [seedText, ...[...contributions].sort()].join('\n');
+    }
+    if (secret) {
+      text = `${text}:${secret}`;
+    }
+    return hashSeed(text);
+  };
+
+  // Without a seed, contributions alone decide the draw
+  if (!input && contributions.length > 0) {
+    return {
+      seed: withSecret(0, ''),
+      seedText: '',
+      isDateSeed: false,
+      parsedDate: null,
+    };
+  }
+
   // If no seed provided, use current timestamp
-  if (!seedInput) {
+  if (!input) {
+    const seed = Date.now();
     return {
-      seed: Date.now(),
+      seed: withSecret(seed, String(seed)),
+      seedText: String(seed),
       isDateSeed: false,
       parsedDate: null,
     };
   }
 
   // Check if it's a valid date in YYYYMMDD format
-  if (seedInput.length === 8 && /^\d{8}$/.test(seedInput)) {
-    const year = seedInput.substring(0, 4);
-    const month = seedInput.substring(4, 6);
-    const day = seedInput.substring(6, 8);
+  if (/^\d{8}$/.test(input)) {
+    const year = input.substring(0, 4);
+    const month = input.substring(4, 6);
+    const day = input.substring(6, 8);
 
     // Use dayjs for more robust date parsing
     const parsedDate = dayjs(`${year}-${month}-${day}`);
 
-    // Check if it's a valid date
-    if (parsedDate.isValid()) {
+    // Check if it's a valid date (dayjs rolls over days like 0231)
+    if (parsedDate.isValid() && parsedDate.format('YYYYMMDD') === input) {
       return {
-        seed: parseInt(seedInput, 10),
+        seed: withSecret(parseInt(input, 10), input),
+        seedText: input,
         isDateSeed: true,
         parsedDate: parsedDate.toDate(),
       };
     }
   }
 
-  // Parse as regular number seed
-  let numericSeed: number;
-  try {
-    numericSeed = seedInput ? parseInt(seedInput, 10) : Date.now();
-    // If parsing failed or NaN, use current timestamp
-    if (isNaN(numericSeed)) {
-      numericSeed = Date.now();
-    }
-  } catch {
-    numericSeed = Date.now();
+  // Whole numbers are used as they are
+  const numericSeed = Number(input);
+  if (/^-?\d+$/.test(input) && Number.isSafeInteger(numericSeed)) {
+    return {
+      seed: withSecret(numericSeed, input),
+      seedText: input,
+      isDateSeed: false,
+      parsedDate: null,
+    };
   }
 
+  // Any other text is hashed, so the same text always gives the same draw
   return {
-    seed: numericSeed,
+    seed: withSecret(hashSeed(input), input),
+    seedText: input,
     isDateSeed: false,
     parsedDate: null,
   };
 }
 
+/**
+ * Parse seed contributions from URL or form input
+ * @param contributionsParam - One contribution per line (or `;`), optionally
+ *   as `name:value`
+ * @param formatVersion - Format version of the link (names and values escape
+ *   `:` `;` and `\` since `fmt=2`)
+ * @returns List of contributions (empty entries are ignored)
+ */
+export function parseContributions(
+  contributionsParam: string | null,
+  formatVersion: number,
+): SeedContribution[] {
+  if (!contributionsParam) return [];
+
+  const contributions: SeedContribution[] = [];
+  splitEntries(contributionsParam, formatVersion).forEach((entryData) => {
+    const entry = entryData.trim();
+    const [head, rest] = splitList(entry, ':', formatVersion, 2);
+    const hasName = rest !== undefined && head !== '';
+    const name = hasName ? readName(head.trim(), formatVersion) : '';
+    const value = readName((hasName ? rest : entry).trim(), formatVersion);
+    if (value) {
+      contributions.push({ name: name || null, value });
+    }
+  });
+  return contributions;
+}
+
+/**
+ * Format seed contributions for a link (and the form)
+ * @param contributions - List of contributions
+ * @returns One contribution per line with escaped names and values
+ */
+export function formatContributions(contributions: SeedContribution[]): string {
+  return contributions
+    .map(({ name, value }) =>
+      name ? `${escapeName(name)}:${escapeName(value)}` : escapeName(value),
+    )
+    .join('\n');
+}
+
 /**
  * Determine how many rounds to generate based on date and user input
  * @param parsedDate - Date from seed (if any)
  * @param userRounds - User-specified rounds (if any)
+ * @param mealSchedule - Meals served on each day
  * @returns Number of rounds to generate
  */
 export function determineRounds(
   parsedDate: Date | null,
   userRounds: number | null,
+  mealSchedule: MealSchedule = DEFAULT_MEAL_SCHEDULE,
 ): number {
   // If user specified rounds, use that
   if (userRounds !== null && userRounds > 0) {
@@ -129,13 +405,50 @@ export function determineRounds(
     return 1;
   }
 
-  // Check if it's a weekend (0 = Sunday, 6 = Saturday)
-  const dayOfWeek = dayjs(parsedDate).day();
-  if (dayOfWeek === 0 || dayOfWeek === 6) {
-    return 2; // Weekend: brunch & dinner
-  } else {
-    return 3; // Weekday: breakfast, lunch & dinner
+  // One round for each meal served that day
+  return getMealsForDate(parsedDate, mealSchedule).length;
+}
+
+// ===== TEAM SIZES =====
+
+/**
+ * Parse team sizes from URL
+ * @param sizeParam - A single size (`4`) or one size per meal (`3,4,6`)
+ * @returns List of sizes (defaults to [4]), or error message
+ */
+export function parseTeamSizes(
+  sizeParam: string | null,
+): number[] | { error: string } {
+  if (!sizeParam || !sizeParam.trim()) return [4];
+
+  const sizes = sizeParam.split(',').map((size) => size.trim());
+  if (sizes.some((size) => !/^\d+$/.test(size) || parseInt(size, 10) < 1)) {
+    return {
+      error: `팀 인원수 형식이 올바르지 않습니다: '${sizeParam}' (예: 4 또는 3,4,6)`,
+    };
   }
+  return sizes.map((size) => parseInt(size, 10));
+}
+
+/**
+ * Resolve the team size of each round of a day
+ * @param teamSizes - Sizes per meal in `mealOrder`; the last size repeats for
+ *   later meals
+ * @param meals - Label of each round on the day
+ * @param mealOrder - Meals the sizes are listed for (see `getMealOrder`)
+ * @returns Team size for each round
+ */
+export function getRoundTeamSizes(
+  teamSizes: number[],
+  meals: string[],
+  mealOrder: string[],
+): number[] {
+  return meals.map((meal, round) => {
+    // Meals outside the order (e.g. weekend brunch) use their position
+    const orderIndex = mealOrder.indexOf(meal);
+    const mealIndex = orderIndex >= 0 ? orderIndex : round;
+    return teamSizes[Math.min(mealIndex, teamSizes.length - 1)];
+  });
 }
 
 // ===== TEAM RANDOMIZATION =====
@@ -163,8 +476,37 @@ function shuffleArray<T>(array: T[], random: () => number): T[] {
 export function randomizeTeams(
   params: RandomizationParams,
 ): RandomizationResult | { error: string } {
-  const { pool, teamSize, rounds, minAppearances, maxAppearances, seed } =
-    params;
+  const {
+    pool,
+    teamSize,
+    rounds,
+    minAppearances,
+    maxAppearances,
+    seed,
+    avoidPairs = [],
+    requirePairs = [],
+    unavailable = [],
+    roundLabels = [],
+    spacing = NO_SPACING_RULES,
+    roundDays = [],
+    fewestFirst = false,
+    avoidBound = false,
+    diagnose = false,
+    searchSteps,
+    audit = false,
+  } = params;
+
+  // Name rounds in messages the way the result page labels them
+  const getRoundName = (round: number) =>
+    roundLabels[round] ?? `라운드 ${round + 1}`;
+
+  // Size of each round's team (a list shorter than the rounds repeats its last size)
+  const teamSizes = Array.from({ length: rounds }, (_, round) =>
+    typeof teamSize === 'number'
+      ? teamSize
+      : teamSize[Math.min(round, teamSize.length - 1)],
+  );
+  const largestTeam = Math.max(0, ...teamSizes);
 
   // === VALIDATION ===
   // Ensure minimum number of participants
@@ -173,13 +515,23 @@ export function randomizeTeams(
   }
 
   // Team size cannot exceed pool size
-  if (teamSize >= pool.length) {
+  if (largestTeam >= pool.length) {
     return { error: '팀 인원수는 전체 참가자 수보다 작아야 합니다.' };
   }
 
-  const totalSelections = teamSize * rounds;
+  if (teamSizes.some((size) => !(size >= 1))) {
+    return { error: '팀 인원수는 1명 이상이어야 합니다.' };
+  }
+
+  const totalSelections = teamSizes.reduce((sum, size) => sum + size, 0);
   const minTotalAppearances = minAppearances * pool.length;
 
+  if (totalSelections > MAX_TOTAL_SLOTS) {
+    return {
+      error: `한 번에 배정할 수 있는 자리는 최대 ${MAX_TOTAL_SLOTS.toLocaleString()}자리입니다. (현재: ${totalSelections.toLocaleString()}자리) 라운드 수나 팀 인원수를 줄여 보세요.`,
+    };
+  }
+
   // Check if min/max constraints can be satisfied
   if (totalSelections < minTotalAppearances) {
     return {
@@ -193,6 +545,57 @@ export function randomizeTeams(
     };
   }
 
+  // Check that pair constraints don't contradict each other
+  const pairError = validatePairConstraints(
+    pool,
+    largestTeam,
+    avoidPairs,
+    requirePairs,
+  );
+  if (pairError) {
+    return { error: pairError };
+  }
+
+  // Check that unavailable participants still leave enough people
+  const unknownUnavailable = Array.from(new Set(unavailable.flat())).filter(
+    (person) => !pool.includes(person),
+  );
+  if (unknownUnavailable.length > 0) {
+    return {
+      error: `열외 목록에 참가자 명단에 없는 이름이 있습니다: ${unknownUnavailable.join(', ')}`,
+    };
+  }
+
+  for (let round = 0; round < rounds; round++) {
+    const availableCount = pool.filter(
+      (person) => !unavailable[round]?.includes(person),
+    ).length;
+    if (availableCount < teamSizes[round]) {
+      return {
+        error: `${getRoundName(round)}에 참여 가능한 인원이 ${availableCount}명뿐이라 팀 인원수(${teamSizes[round]}명)를 채울 수 없습니다.`,
+      };
+    }
+  }
+
+  const availableRounds = countAvailableRounds(pool, rounds, unavailable);
+  for (const person of pool) {
+    if (availableRounds[person] < minAppearances) {
+      return {
+        error: `'${person}'은(는) 참여 가능한 식사가 ${availableRounds[person]}회뿐이라 최소 식청 횟수(${minAppearances}회)를 채울 수 없습니다.`,
+      };
+    }
+  }
+
+  const maxCapacity = pool.reduce(
+    (sum, person) => sum + Math.min(maxAppearances, availableRounds[person]),
+    0,
+  );
+  if (maxCapacity < totalSelections) {
+    return {
+      error: `열외를 고려하면 최대 식청 횟수 ${maxAppearances}회로는 필요한 ${totalSelections}자리를 채울 수 없습니다. 최대 식청 횟수를 늘리거나 열외를 줄여 보세요.`,
+    };
+  }
+
   // === INITIALIZATION ===
   // Create random number generator with seed
   const random = createRandomGenerator(seed);
@@ -203,119 +606,585 @@ export function randomizeTeams(
     appearances[person] = 0;
   });
 
+  // Participants who must always be together are selected as one group
+  const groups = buildRequiredGroups(pool, requirePairs);
+  const groupOf: Record<string, string[]> = {};
+  groups.forEach((group) => {
+    group.forEach((person) => {
+      groupOf[person] = group;
+    });
+  });
+
+  // Whether every member of a person's group can be drawn in each round
+  const groupAvailable = Array.from({ length: rounds }, (_, round) =>
+    pool.map(
+      (person) =>
+        !groupOf[person].some((member) => unavailable[round]?.includes(member)),
+    ),
+  );
+
   // Initialize teams array
   const teams: string[][] = Array(rounds)
     .fill(null)
     .map(() => []);
 
-  // === TEAM GENERATION ===
-  // For each round, select a team
-  for (let round = 0; round < rounds; round++) {
-    // Keep adding team members until we have exactly teamSize
-    while (teams[round].length < teamSize) {
-      // Get eligible participants for this round
-      const eligible = pool.filter(
-        (person) =>
-          !teams[round].includes(person) &&
-          appearances[person] < maxAppearances,
-      );
+  // Candidate order of each round, fixed when the search enters the round
+  const candidateOrder: (string[][] | undefined)[] = Array(rounds);
+  // Teams are built as combinations: later picks come after earlier ones
+  const nextCandidate: number[] = Array(rounds).fill(0);
 
-      // If not enough eligible participants to complete the team
-      if (eligible.length < teamSize - teams[round].length) {
-        return {
-          error:
-            '주어진 제약 조건으로는 팀을 구성할 수 없습니다. 최대 식청 횟수를 늘리거나 다른 설정을 조정해 보세요.',
-        };
-      }
+  // Rounds each person has been picked for so far
+  const duties: Record<string, number[]> = {};
+  pool.forEach((person) => {
+    duties[person] = [];
+  });
 
-      // Sort eligible participants by priority:
-      // 1. Those who haven't met min appearances
-      // 2. Those with fewer appearances
-      const sortedEligible = [...eligible].sort((a, b) => {
-        // First prioritize those under min appearances
-        const aUnderMin = appearances[a] < minAppearances ? 1 : 0;
-        const bUnderMin = appearances[b] < minAppearances ? 1 : 0;
+  // Most duties anyone can hold on a day under the spacing rules
+  const spacingActive = hasSpacingRules(spacing);
+  const dayOf = (round: number) => roundDays[round] ?? 0;
+  const roundsPerDay: Record<number, number> = {};
+  teams.forEach((_, round) => {
+    roundsPerDay[dayOf(round)] = (roundsPerDay[dayOf(round)] || 0) + 1;
+  });
+  const dayCapacity = (day: number) =>
+    Math.min(
+      spacing.maxPerDay ?? Infinity,
+      Math.ceil(roundsPerDay[day] / (spacing.minGap + 1)),
+    );
 
-        if (aUnderMin !== bUnderMin) {
-          return bUnderMin - aUnderMin; // Higher priority if under min
-        }
+  // Check whether a person's other duties leave room for a round
+  const fitsSpacing = (person: string, round: number) =>
+    !spacingActive ||
+    (duties[person].every(
+      (duty) => !isTooClose(duty, round, roundDays, spacing),
+    ) &&
+      duties[person].filter((duty) => dayOf(duty) === dayOf(round)).length <
+        (spacing.maxPerDay ?? Infinity));
 
-        // Then prioritize by fewer appearances
-        return appearances[a] - appearances[b];
-      });
+  // Check whether a group can join a round's team right now
+  const canJoin = (group: string[], round: number) =>
+    teams[round].length + group.length <= teamSizes[round] &&
+    groupAvailable[round][pool.indexOf(group[0])] &&
+    group.every(
+      (person) =>
+        !teams[round].includes(person) &&
+        appearances[person] < maxAppearances &&
+        fitsSpacing(person, round),
+    ) &&
+    !hasAvoidConflict(group, teams[round], avoidPairs);
 
-      // Calculate how many more members needed for this team
-      const remainingNeeded = teamSize - teams[round].length;
+  // People who avoid each other: at most one of each clique per round
+  const avoidCliques = buildAvoidCliques(pool, avoidPairs);
+  const exclusiveGroups = avoidCliques.map((clique) =>
+    clique.map((person) => pool.indexOf(person)),
+  );
 
-      // First, select from those under minimum appearances
-      const underMinimum = sortedEligible.filter(
-        (person) => appearances[person] < minAppearances,
+  // Describe the slots still open from a round onward as a flow problem
+  const getRemainingProblem = (round: number): FeasibilityProblem => ({
+    lower: pool.map((person) =>
+      Math.max(0, minAppearances - appearances[person]),
+    ),
+    upper: pool.map((person) => maxAppearances - appearances[person]),
+    needs: teams.map((team, r) => (r < round ? 0 : teamSizes[r] - team.length)),
+    canServe: (personIndex, r) => {
+      const group = groupOf[pool[personIndex]];
+      const order = candidateOrder[r];
+      if (r === round && order) {
+        return (
+          order.indexOf(group) >= nextCandidate[r] && canJoin(group, round)
+        );
+      }
+      return (
+        groupAvailable[r][personIndex] &&
+        group.length <= teamSizes[r] - teams[r].length &&
+        group.every((person) => fitsSpacing(person, r))
       );
+    },
+    ...(spacingActive && {
+      roundDays: teams.map((_, r) => dayOf(r)),
+      dayLimit: (personIndex: number, day: number) =>
+        Math.max(
+          0,
+          dayCapacity(day) -
+            duties[pool[personIndex]].filter((duty) => dayOf(duty) === day)
+              .length,
+        ),
+    }),
+    ...(avoidBound && exclusiveGroups.length > 0 && { exclusiveGroups }),
+  });
 
-      // Shuffle to randomize selection while preserving priority
-      const shuffledUnderMinimum = shuffleArray(underMinimum, random);
-
-      // Select members from under-minimum group (up to how many we need)
-      const selectFromUnderMin = Math.min(
-        shuffledUnderMinimum.length,
-        remainingNeeded,
+  // Explain why the open slots can't be filled, naming rounds or people
+  const explainShortage = (problem: FeasibilityProblem) => {
+    // Shortages that go away without the avoid bound come from people who
+    // can't share a team
+    const blockedByAvoid =
+      !!problem.exclusiveGroups &&
+      isFeasible({ ...problem, exclusiveGroups: undefined });
+    if (blockedByAvoid) {
+      const shortage =
+        findRoundShortage(problem) ?? findPersonShortage(problem);
+      const cliques = summarizeList(
+        avoidCliques.map((clique) => clique.join('·')),
       );
+      return `같은 팀 금지 조건으로 ${cliques}에서는 한 팀에 한 명씩만 들어갈 수 있어 ${shortage ? `필요한 ${shortage.required}자리 중 ${shortage.available}자리만 채울 수 있습니다` : '팀을 채울 수 없습니다'}. 같은 팀 금지 조건을 줄이거나 팀 인원수를 줄여 보세요.`;
+    }
 
-      for (let i = 0; i < selectFromUnderMin; i++) {
-        const person = shuffledUnderMinimum[i];
-        teams[round].push(person);
-        appearances[person]++;
+    const roundShortage = findRoundShortage(problem);
+    if (roundShortage) {
+      const settings = [
+        '열외',
+        '최대 식청 횟수',
+        spacingActive && '간격 규칙',
+        requirePairs.length > 0 && '같은 팀 필수 조건',
+      ].filter(Boolean);
+      return `${summarizeList(roundShortage.indices.map(getRoundName))}에 필요한 ${roundShortage.required}자리 중 ${roundShortage.available}자리만 채울 수 있습니다. ${settings.join(', ')}을(를) 확인해 보세요.`;
+    }
+
+    const personShortage = findPersonShortage(problem);
+    if (personShortage) {
+      return `${summarizeList(personShortage.indices.map((index) => pool[index]))}의 최소 식청 횟수를 채우려면 ${personShortage.required}자리가 필요하지만 들어갈 수 있는 자리는 ${personShortage.available}자리뿐입니다. 최소 식청 횟수를 줄이거나 열외${spacingActive ? '와 간격 규칙' : ''}을 확인해 보세요.`;
+    }
+
+    return '주어진 제약 조건으로는 팀을 구성할 수 없습니다. 최대 식청 횟수를 늘리거나 다른 설정을 조정해 보세요.';
+  };
+
+  const initialProblem = getRemainingProblem(0);
+  if (!isFeasible(initialProblem)) {
+    return { error: explainShortage(initialProblem) };
+  }
+
+  // === TEAM GENERATION ===
+  // Backtracking search: pick groups one at a time and only keep a pick if
+  // the remaining slots can still be filled within min/max limits. The search
+  // keeps its own stack instead of recursing, since a draw may pick hundreds
+  // of times
+  const stepBudget = searchSteps ?? MAX_SEARCH_STEPS;
+  let steps = 0;
+  const trace: DrawStep[] | null = audit ? [] : null;
+
+  // Fix the candidate order of a round when the search enters it:
+  // 1. Those who haven't met min appearances
+  // 2. Everyone else
+  // Each priority group is shuffled to randomize selection, then (engine v3)
+  // sorted so people with fewer duties so far come first and ties stay random
+  const enterRound = (round: number) => {
+    if (candidateOrder[round]) return;
+
+    const underMinimum = groups.filter(
+      (group) => appearances[group[0]] < minAppearances,
+    );
+    const others = groups.filter(
+      (group) => appearances[group[0]] >= minAppearances,
+    );
+    const byAppearances = (a: string[], b: string[]) =>
+      appearances[a[0]] - appearances[b[0]];
+    const arrange = (candidates: string[][]) => {
+      const shuffled = shuffleArray(candidates, random);
+      return fewestFirst ? shuffled.sort(byAppearances) : shuffled;
+    };
+    const shuffledUnderMinimum = arrange(underMinimum);
+    const shuffledOthers = arrange(others);
+    candidateOrder[round] = [...shuffledUnderMinimum, ...shuffledOthers];
+    nextCandidate[round] = 0;
+    trace?.push({
+      type: 'order',
+      round,
+      underMinimum: shuffledUnderMinimum,
+      others: shuffledOthers,
+      fewestFirst,
+    });
+  };
+
+  // A round being filled: `pick` is the group whose follow-up search is
+  // running, `complete` marks a full team waiting on the next round
+  const stack: {
+    round: number;
+    complete: boolean;
+    index: number;
+    pick: string[] | null;
+    previousNext: number;
+  }[] = [];
+  let call: number | null = 0; // Round the search enters next
+  let found: boolean | 'limit' = false; // Outcome of the last finished search
+
+  while (call !== null || stack.length > 0) {
+    if (call !== null) {
+      const round: number = call;
+      call = null;
+      if (round === rounds) {
+        found = true;
+        continue;
       }
 
+      enterRound(round);
+      const complete = teams[round].length === teamSizes[round];
+      stack.push({
+        round,
+        complete,
+        index: nextCandidate[round],
+        pick: null,
+        previousNext: 0,
+      });
+
       // If team is complete, move to next round
-      if (teams[round].length >= teamSize) {
-        break;
+      if (complete) {
+        call = round + 1;
+        continue;
+      }
+    } else {
+      const frame = stack[stack.length - 1];
+      if (frame.complete) {
+        if (found === false) {
+          candidateOrder[frame.round + 1] = undefined;
+        }
+        stack.pop();
+        continue;
       }
 
-      // If we need more people, select from remaining eligible participants
-      const remainingEligible = sortedEligible.filter(
-        (person) =>
-          !shuffledUnderMinimum.slice(0, selectFromUnderMin).includes(person),
-      );
+      // The search after this frame's pick ended
+      if (found !== false) {
+        stack.pop();
+        continue;
+      }
+      const { round, pick } = frame;
+      trace?.push({ type: 'undo', round, group: pick! });
+      pick!.forEach((person) => {
+        teams[round].pop();
+        appearances[person]--;
+        duties[person].pop();
+      });
+      nextCandidate[round] = frame.previousNext;
+      frame.pick = null;
+      frame.index++;
+    }
 
-      // Shuffle remaining eligible participants
-      const shuffledRemaining = shuffleArray(remainingEligible, random);
+    // Try the frame's next candidates until one keeps the slots fillable
+    const frame = stack[stack.length - 1];
+    const { round } = frame;
+    const order = candidateOrder[round]!;
+    let picked = false;
+    for (; frame.index < order.length; frame.index++) {
+      const group = order[frame.index];
+      if (!canJoin(group, round)) continue;
 
-      // Calculate how many more needed to complete the team
-      const stillNeeded = teamSize - teams[round].length;
-      const selectFromRemaining = Math.min(
-        shuffledRemaining.length,
-        stillNeeded,
-      );
+      if (++steps > stepBudget) {
+        found = 'limit';
+        break;
+      }
+
+      // Candidates that could take this spot, for the audit view
+      const eligible = trace
+        ? order
+            .slice(frame.index)
+            .filter((candidate) => canJoin(candidate, round))
+        : [];
 
-      // Select remaining team members
-      for (let i = 0; i < selectFromRemaining; i++) {
-        const person = shuffledRemaining[i];
+      frame.previousNext = nextCandidate[round];
+      group.forEach((person) => {
         teams[round].push(person);
         appearances[person]++;
+        duties[person].push(round);
+      });
+      nextCandidate[round] = frame.index + 1;
+
+      if (isFeasible(getRemainingProblem(round))) {
+        trace?.push({ type: 'pick', round, group, eligible });
+        frame.pick = group;
+        call = round;
+        picked = true;
+        break;
       }
+      trace?.push({ type: 'reject', round, group });
+
+      // Undo the pick and try the next candidate
+      group.forEach((person) => {
+        teams[round].pop();
+        appearances[person]--;
+        duties[person].pop();
+      });
+      nextCandidate[round] = frame.previousNext;
     }
 
-    // Verify team size
-    if (teams[round].length !== teamSize) {
+    if (!picked) {
+      if (found !== 'limit') found = false;
+      stack.pop();
+    }
+  }
+
+  if (found !== true) {
+    // Min/max and availability allow a solution, so pair constraints or
+    // spacing rules block it; name the ones the draw can do without
+    const formatPairs = (pairs: Pair[]) =>
+      summarizeList(pairs.map(([a, b]) => `${a} & ${b}`));
+    const rules: { label: string; relaxed: Partial<RandomizationParams> }[] =
+      [];
+    if (requirePairs.length > 0) {
+      rules.push({
+        label: `같은 팀 필수 조건(${formatPairs(requirePairs)})`,
+        relaxed: { requirePairs: [] },
+      });
+    }
+    if (avoidPairs.length > 0) {
+      rules.push({
+        label: `같은 팀 금지 조건(${formatPairs(avoidPairs)})`,
+        relaxed: { avoidPairs: [] },
+      });
+    }
+    if (spacingActive) {
+      rules.push({
+        label: `간격 규칙(${describeSpacingRules(spacing)})`,
+        relaxed: { spacing: NO_SPACING_RULES },
+      });
+    }
+
+    // Only a search that ran out of candidates is worth repeating without a
+    // rule; one that ran out of steps would likely run out again
+    const blocking =
+      diagnose &&
+      found === false &&
+      rules.length > 1 &&
+      searchSteps === undefined
+        ? rules.filter(
+            ({ relaxed }) =>
+              !(
+                'error' in
+                randomizeTeams({
+                  ...params,
+                  ...relaxed,
+                  audit: false,
+                  diagnose: false,
+                  searchSteps: DIAGNOSIS_STEPS,
+                })
+              ),
+          )
+        : [];
+    const blockers = (blocking.length > 0 ? blocking : rules).map(
+      ({ label }) => label,
+    );
+
+    if (found === 'limit') {
       return {
-        error: `내부 오류: 라운드 ${round + 1}의 팀 인원이 ${teams[round].length}명입니다 (요청된 팀 인원: ${teamSize}명).`,
+        error: `가능한 팀 배정을 ${stepBudget.toLocaleString()}번 시도 안에 찾지 못했습니다. ${
+          blockers.length > 0
+            ? `${blockers.join(', ')}을(를) 최소·최대 식청 횟수와 함께 맞추기 어렵습니다. 이 조건을 완화하거나 최대 식청 횟수를 늘려 보세요.`
+            : '최대 식청 횟수를 늘리거나 다른 설정을 조정해 보세요.'
+        }`,
       };
     }
-  }
 
-  // Check if minimum appearances constraint is met
-  const minConstraintMet = pool.every(
-    (person) => appearances[person] >= minAppearances,
-  );
-  if (!minConstraintMet) {
     return {
       error:
-        '최소 식청 횟수 제약을 만족할 수 없습니다. 최소 식청 횟수를 줄이거나 라운드 수를 늘려보세요.',
+        blockers.length > 0
+          ? `다음 조건을 최소·최대 식청 횟수와 함께 모두 만족하는 팀 배정이 없습니다: ${blockers.join(', ')}. 이 조건을 완화하거나 최대 식청 횟수를 늘려 보세요.`
+          : '주어진 제약 조건으로는 팀을 구성할 수 없습니다. 최대 식청 횟수를 늘리거나 다른 설정을 조정해 보세요.',
     };
   }
 
-  return { teams, appearances };
+  return { teams, appearances, ...(trace && { trace }) };
+}
+
+/**
+ * Join list items for a message, shortening long lists
+ * @param items - Items to list
+ * @param limit - Most items to show before summarizing the rest
+ * @returns Comma-separated items, e.g. "A, B, C 외 2개"
+ */
+function summarizeList(items: string[], limit = 5): string {
+  if (items.length <= limit) {
+    return items.join(', ');
+  }
+  return `${items.slice(0, limit).join(', ')} 외 ${items.length - limit}개`;
+}
+
+// ===== MULTI-DAY SCHEDULING =====
+
+/**
+ * Build the list of days in a date range with the rounds for each day
+ * @param startDate - First day of the range (inclusive)
+ * @param endDate - Last day of the range (inclusive)
+ * @param userRounds - User-specified rounds per day (if any)
+ * @param mealSchedule - Meals served on each day
+ * @returns Days in the range, or error message if the range is invalid
+ */
+export function getScheduleDays(
+  startDate: Date,
+  endDate: Date,
+  userRounds: number | null,
+  mealSchedule: MealSchedule = DEFAULT_MEAL_SCHEDULE,
+): Omit<ScheduleDay, 'teams'>[] | { error: string } {
+  const start = dayjs(startDate).startOf('day');
+  const end = dayjs(endDate).startOf('day');
+
+  if (end.isBefore(start)) {
+    return { error: '종료 날짜는 시작 날짜보다 빠를 수 없습니다.' };
+  }
+
+  const dayCount = end.diff(start, 'day') + 1;
+  if (dayCount > MAX_SCHEDULE_DAYS) {
+    return {
+      error: `기간은 최대 ${MAX_SCHEDULE_DAYS}일까지 설정할 수 있습니다. (현재: ${dayCount}일)`,
+    };
+  }
+
+  const days: Omit<ScheduleDay, 'teams'>[] = [];
+  let offset = 0;
+  for (let i = 0; i < dayCount; i++) {
+    const date = start.add(i, 'day').toDate();
+    const rounds = determineRounds(date, userRounds, mealSchedule);
+    const meals = Array.from({ length: rounds }, (_, round) =>
+      getMealLabel(round, date, mealSchedule),
+    );
+    days.push({ date, offset, rounds, meals });
+    offset += rounds;
+  }
+
+  return days;
+}
+
+/**
+ * Count the rounds each participant can be drawn in
+ * @param pool - List of participant names
+ * @param rounds - Number of rounds
+ * @param unavailable - People who can't be drawn in each round
+ * @returns Available round count for each person
+ */
+function countAvailableRounds(
+  pool: string[],
+  rounds: number,
+  unavailable: string[][],
+): Record<string, number> {
+  const availableRounds: Record<string, number> = {};
+  pool.forEach((person) => {
+    availableRounds[person] = rounds;
+  });
+  unavailable.slice(0, rounds).forEach((people) => {
+    people.forEach((person) => {
+      if (person in availableRounds) availableRounds[person]--;
+    });
+  });
+  return availableRounds;
+}
+
+/**
+ * Default max appearances for a schedule so duties are spread evenly
+ * @param availableRounds - Rounds each participant can be drawn in
+ * @param totalSelections - Sum of the team sizes of every round
+ * @returns Smallest max appearances that can still fill every team
+ */
+export function getBalancedMaxAppearances(
+  availableRounds: number[],
+  totalSelections: number,
+): number {
+  const mostAvailable = Math.max(0, ...availableRounds);
+  for (let max = 0; max < mostAvailable; max++) {
+    const capacity = availableRounds.reduce(
+      (sum, count) => sum + Math.min(max, count),
+      0,
+    );
+    if (capacity >= totalSelections) return max;
+  }
+  return mostAvailable;
+}
+
+/**
+ * Generate teams for every meal in a date range as a single draw, so the
+ * min/max appearance limits apply to the whole range instead of each day
+ * @param params - Parameters for schedule randomization
+ * @returns Teams grouped by day, or error message
+ */
+export function randomizeSchedule(
+  params: ScheduleParams,
+): ScheduleResult | { error: string } {
+  const {
+    startDate,
+    endDate,
+    teamSize,
+    userRounds,
+    maxAppearances,
+    unavailability = [],
+    mealSchedule = DEFAULT_MEAL_SCHEDULE,
+    ...teamParams
+  } = params;
+
+  const days = getScheduleDays(startDate, endDate, userRounds, mealSchedule);
+  if ('error' in days) {
+    return days;
+  }
+
+  const rounds = days.reduce((sum, day) => sum + day.rounds, 0);
+  const teamSizes = days.flatMap((day) =>
+    typeof teamSize === 'number'
+      ? Array<number>(day.rounds).fill(teamSize)
+      : getRoundTeamSizes(teamSize, day.meals, getMealOrder(mealSchedule)),
+  );
+  const unavailable = days.flatMap((day) =>
+    getUnavailableByRound(unavailability, day.date, day.meals),
+  );
+  const availableRounds = countAvailableRounds(
+    teamParams.pool,
+    rounds,
+    unavailable,
+  );
+  const rangeMaxAppearances =
+    maxAppearances ??
+    getBalancedMaxAppearances(
+      Object.values(availableRounds),
+      teamSizes.reduce((sum, size) => sum + size, 0),
+    );
+
+  const result = randomizeTeams({
+    ...teamParams,
+    teamSize: teamSizes,
+    rounds,
+    unavailable,
+    maxAppearances: rangeMaxAppearances,
+    roundDays: days.flatMap((day, dayIndex) =>
+      Array<number>(day.rounds).fill(dayIndex),
+    ),
+    roundLabels: days.flatMap((day) =>
+      day.meals.map(
+        (meal) => `${dayjs(day.date).format('MM/DD (ddd)')} ${meal}`,
+      ),
+    ),
+  });
+  if ('error' in result) {
+    return result;
+  }
+
+  return {
+    ...result,
+    maxAppearances: rangeMaxAppearances,
+    unavailable,
+    teamSizes,
+    days: days.map((day) => ({
+      ...day,
+      teams: result.teams.slice(day.offset, day.offset + day.rounds),
+    })),
+  };
+}
+
+/**
+ * List the participants who can't be drawn in each round of a day
+ * @param unavailability - Leave, duty and training entries
+ * @param date - Day of the rounds
+ * @param meals - Label of each round on the day
+ * @returns Unavailable participants for each round
+ */
+export function getUnavailableByRound(
+  unavailability: Unavailability[],
+  date: Date,
+  meals: string[],
+): string[][] {
+  const dateString = dayjs(date).format('YYYYMMDD');
+  const people = Array.from(
+    new Set(unavailability.map((entry) => entry.person)),
+  );
+
+  return meals.map((mealLabel) =>
+    people.filter((person) =>
+      isUnavailable(unavailability, person, dateString, mealLabel),
+    ),
+  );
 }
 
 // ===== DATE & FORMATTING UTILITIES =====
@@ -323,16 +1192,25 @@ export function randomizeTeams(
 /**
  * Get previous, current, and next day in YYYYMMDD format
  * @param currentDate - Reference date
+ * @param endDate - Last day of a date range (if any); ranges move by their length
  * @returns Object with adjacent date strings
  */
-export function getAdjacentDates(currentDate: Date): {
+export function getAdjacentDates(
+  currentDate: Date,
+  endDate: Date | null = null,
+): {
   previousDate: string;
   currentDateString: string;
   nextDate: string;
+  previousEndDate: string | null;
+  nextEndDate: string | null;
+  spanDays: number;
 } {
   const current = dayjs(currentDate);
-  const previous = current.subtract(1, 'day');
-  const next = current.add(1, 'day');
+  const end = endDate ? dayjs(endDate) : null;
+  const spanDays = end ? Math.max(end.diff(current, 'day') + 1, 1) : 1;
+  const previous = current.subtract(spanDays, 'day');
+  const next = current.add(spanDays, 'day');
 
   // Format as YYYYMMDD
   const formatDate = (date: dayjs.Dayjs): string => {
@@ -343,64 +1221,69 @@ export function getAdjacentDates(currentDate: Date): {
     previousDate: formatDate(previous),
     currentDateString: formatDate(current),
     nextDate: formatDate(next),
+    previousEndDate: end ? formatDate(end.subtract(spanDays, 'day')) : null,
+    nextEndDate: end ? formatDate(end.add(spanDays, 'day')) : null,
+    spanDays,
   };
 }
 
 /**
  * Format date for display with colored day of week
  * @param date - Date to format
- * @returns Formatted date parts and color information
+ * @param holidayCalendar - Holiday calendar version of the link
+ * @returns Formatted date parts, color information and holiday name (if any)
  */
-export function formatDateForDisplay(date: Date): {
+export function formatDateForDisplay(
+  date: Date,
+  holidayCalendar: number,
+): {
   dateText: string;
   dayText: string;
   dayColor: string;
+  holidayName: string | null;
 } {
   const dateObj = dayjs(date);
   const dateText = dateObj.format('YYYY년 MM월 DD일');
   const day = dateObj.day(); // 0 is Sunday, 6 is Saturday
   const dayText = dateObj.format('ddd');
+  const holidayName = getHolidayName(date, holidayCalendar);
 
   // Determine day color
   let dayColor = 'text-foreground'; // default for weekdays
-  if (day === 0) {
-    dayColor = 'text-red-500'; // Sunday
+  if (day === 0 || holidayName) {
+    dayColor = 'text-red-500'; // Sunday or public holiday
   } else if (day === 6) {
     dayColor = 'text-blue-500'; // Saturday
   }
 
-  return { dateText, dayText, dayColor };
+  return { dateText, dayText, dayColor, holidayName };
 }
 
 /**
- * Check if date is a weekend
+ * Check if date is a weekend-style day
  * @param date - Date to check
- * @returns True if weekend (Saturday or Sunday)
+ * @param holidayCalendar - Holiday calendar version of the link
+ * @returns True if weekend (Saturday or Sunday) or public holiday
  */
-export function isWeekend(date: Date): boolean {
+export function isWeekend(date: Date, holidayCalendar: number): boolean {
   const day = dayjs(date).day();
-  return day === 0 || day === 6;
+  return day === 0 || day === 6 || isHoliday(date, holidayCalendar);
 }
 
 /**
- * Get meal label based on round index and whether it's a weekend
+ * Get meal label based on round index and the meals served that day
  * @param roundIndex - Zero-based index of the round
- * @param isWeekend - Whether the date is a weekend
- * @returns Korean meal label
+ * @param date - Day of the round
+ * @param mealSchedule - Meals served on each day
+ * @returns Korean meal label (`라운드 N` past the day's meals)
  */
-export function getMealLabel(roundIndex: number, isWeekend: boolean): string {
-  if (isWeekend) {
-    return roundIndex === 0 ? '브런치' : '저녁';
-  } else {
-    switch (roundIndex) {
-      case 0:
-        return '아침';
-      case 1:
-        return '점심';
-      case 2:
-        return '저녁';
-      default:
-        return `라운드 ${roundIndex + 1}`;
-    }
-  }
+export function getMealLabel(
+  roundIndex: number,
+  date: Date,
+  mealSchedule: MealSchedule = DEFAULT_MEAL_SCHEDULE,
+): string {
+  return (
+    getMealsForDate(date, mealSchedule)[roundIndex] ??
+    `라운드 ${roundIndex + 1}`
+  );
 }
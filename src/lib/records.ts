@@ -0,0 +1,210 @@
+/**
+ * 식당청소 뺑뺑이 (Dining Hall Cleaning Duty Team Randomizer)
+ * CSV and JSON records of results, for archiving and restoring
+ */
+import dayjs from 'dayjs';
+import {
+  formatRoundTitle,
+  getRoundSlot,
+  parseDisabledFromUrl,
+  parseSwapsFromUrl,
+  type DrawResult,
+} from './draw';
+import { getFormatVersion } from './encoding';
+
+// ===== TYPES =====
+
+/**
+ * One meal duty of a result
+ */
+export interface RecordRound {
+  date: string | null; // YYYY-MM-DD (date seeds only)
+  meal: string; // Meal label, or 라운드 N without a date seed
+  members: string[];
+  disabled: string[]; // People taken off this round by hand
+  swapped: string[]; // Trades of this round's duty, e.g. "A ↔ B (10/21 (수) 저녁)"
+}
+
+/**
+ * Archived result. `params` restores the result page exactly, since links
+ * keep their draw engine and seedless draws get the seed they used; the other
+ * fields keep the record readable on its own
+ */
+export interface ResultRecord {
+  app: 'sikcheong'; // Marks JSON files written by this app
+  version: number; // Record format version
+  exportedAt: string; // ISO timestamp
+  params: Record<string, string>; // Result page URL params
+  seed: number;
+  seedText: string;
+  engineVersion: number;
+  rounds: RecordRound[];
+  appearances: Record<string, number>;
+}
+
+// ===== FORMAT =====
+
+const RECORD_APP = 'sikcheong';
+
+// Current record format
+export const RECORD_VERSION = 1;
+
+/**
+ * Create a record of a drawn result link
+ * @param searchParams - Params of the result link (customizations included)
+ * @param result - Result drawn from those params
+ * @returns Record ready to export, or null for links without teams
+ */
+export function createResultRecord(
+  searchParams: URLSearchParams,
+  result: DrawResult,
+): ResultRecord | null {
+  if (!result.teams || !result.appearances) return null;
+
+  const formatVersion = getFormatVersion(searchParams);
+  const disabled = parseDisabledFromUrl(
+    searchParams.get('disabled'),
+    formatVersion,
+  );
+  const swaps = parseSwapsFromUrl(searchParams.get('swap'), formatVersion);
+
+  // Links without a seed draw from the time they were opened, so the record
+  // keeps the seed that was actually used
+  const params = Object.fromEntries(searchParams.entries());
+  if (!params.seed && result.seedText) {
+    params.seed = result.seedText;
+  }
+
+  return {
+    app: RECORD_APP,
+    version: RECORD_VERSION,
+    exportedAt: new Date().toISOString(),
+    params,
+    seed: result.seed,
+    seedText: result.seedText,
+    engineVersion: result.engineVersion,
+    rounds: result.teams.map((members, index) => {
+      const { date, meal } = getRoundSlot(result, index);
+      return {
+        date: date ? dayjs(date).format('YYYY-MM-DD') : null,
+        meal,
+        members,
+        disabled: Array.from(disabled[index] ?? []),
+        swapped: swaps.flatMap((swap) =>
+          swap
+            .map((side, sideIndex) => ({ side, other: swap[1 - sideIndex] }))
+            .filter(({ side }) => side.round === index)
+            .map(
+              ({ side, other }) =>
+                `${side.person} ↔ ${other.person} (${formatRoundTitle(result, other.round)})`,
+            ),
+        ),
+      };
+    }),
+    appearances: result.appearances,
+  };
+}
+
+// ===== EXPORT =====
+
+// Quote a CSV field when needed (RFC 4180)
+const escapeCsv = (field: string | number) => {
+  const text = String(field);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+const toCsvRow = (fields: (string | number)[]) =>
+  fields.map(escapeCsv).join(',');
+
+/**
+ * Format a record as CSV for spreadsheets
+ * @param record - Result record
+ * @returns CSV with a row per meal, then appearance counts and the seed; the
+ *   byte order mark lets Excel detect UTF-8 for Korean names
+ */
+export function formatRecordCsv(record: ResultRecord): string {
+  const teamWidth = Math.max(0, ...record.rounds.map((r) => r.members.length));
+
+  const rows = [
+    toCsvRow([
+      '날짜',
+      '식사',
+      ...Array.from({ length: teamWidth }, (_, i) => `팀원 ${i + 1}`),
+      '수동 제외',
+      '당번 교환',
+    ]),
+    ...record.rounds.map((round) =>
+      toCsvRow([
+        round.date ?? '',
+        round.meal,
+        ...Array.from({ length: teamWidth }, (_, i) => round.members[i] ?? ''),
+        round.disabled.join(', '),
+        round.swapped.join(', '),
+      ]),
+    ),
+    '',
+    toCsvRow(['이름', '참여 횟수']),
+    ...Object.entries(record.appearances).map(([person, count]) =>
+      toCsvRow([person, count]),
+    ),
+    '',
+    toCsvRow(['시드', record.seedText]),
+    toCsvRow(['엔진 버전', record.engineVersion]),
+  ];
+
+  return '\uFEFF' + rows.join('\r\n') + '\r\n';
+}
+
+/**
+ * Format a record as JSON
+ * @param record - Result record
+ * @returns Indented JSON that `parseResultRecord` reads back
+ */
+export function formatRecordJson(record: ResultRecord): string {
+  return JSON.stringify(record, null, 2) + '\n';
+}
+
+// ===== IMPORT =====
+
+/**
+ * Read a JSON record exported from the result page
+ * @param jsonText - Contents of the file
+ * @returns Record, or error message for other files and newer formats
+ */
+export function parseResultRecord(
+  jsonText: string,
+): ResultRecord | { error: string } {
+  let data: unknown;
+  try {
+    data = JSON.parse(jsonText);
+  } catch {
+    return { error: 'JSON 파일을 읽을 수 없습니다.' };
+  }
+
+  const record = data as Partial<ResultRecord> | null;
+  if (
+    !record ||
+    typeof record !== 'object' ||
+    record.app !== RECORD_APP ||
+    typeof record.version !== 'number'
+  ) {
+    return { error: '식당청소 뺑뺑이 결과 기록 파일이 아닙니다.' };
+  }
+
+  if (record.version > RECORD_VERSION) {
+    return {
+      error: `더 새로운 버전의 기록 파일입니다. (v${record.version}, 지원: v${RECORD_VERSION})`,
+    };
+  }
+
+  const { params } = record;
+  if (
+    !params ||
+    typeof params !== 'object' ||
+    Object.values(params).some((value) => typeof value !== 'string')
+  ) {
+    return { error: '기록 파일에 결과 설정이 없습니다.' };
+  }
+
+  return record as ResultRecord;
+}
@@ -0,0 +1,136 @@
+/**
+ * 식당청소 뺑뺑이 (Dining Hall Cleaning Duty Team Randomizer)
+ * Link previews for messengers (page metadata and Open Graph image)
+ */
+import {
+  drawFromParams,
+  formatRoundTitle,
+  type DrawLimits,
+  type DrawResult,
+} from './draw';
+import { expandParams } from './links';
+
+// ===== TYPES =====
+
+/**
+ * What a shared result link previews
+ */
+export interface ShareSummary {
+  title: string; // Dates of the result
+  description: string; // Every meal and its members on one line
+  rounds: { title: string; members: string[] }[];
+}
+
+// ===== SUMMARY =====
+
+// Messengers cut descriptions around this length
+const MAX_DESCRIPTION_LENGTH = 150;
+
+/**
+ * Summarize a drawn result for link previews
+ * @param result - Drawn result link
+ * @returns Preview text, or null for links without teams (errors, sealed)
+ */
+export function getShareSummary(result: DrawResult): ShareSummary | null {
+  if (!result.teams) return null;
+
+  const formatDate = (date: DrawResult['formattedDate']) =>
+    date
+      ? `${date.dateText} (${date.dayText})${date.holidayName ? ` ${date.holidayName}` : ''}`
+      : '';
+
+  const title = result.formattedDate
+    ? `${formatDate(result.formattedDate)}${
+        result.formattedEndDate
+          ? ` ~ ${formatDate(result.formattedEndDate)}`
+          : ''
+      } 식청 당번`
+    : '식청 당번';
+
+  const rounds = result.teams.map((members, index) => ({
+    title: formatRoundTitle(result, index),
+    members,
+  }));
+
+  const description = rounds
+    .map(
+      ({ title: roundTitle, members }) =>
+        `${roundTitle}: ${members.join(', ')}`,
+    )
+    .join(' / ');
+
+  return {
+    title,
+    description:
+      description.length > MAX_DESCRIPTION_LENGTH
+        ? `${description.slice(0, MAX_DESCRIPTION_LENGTH - 1)}…`
+        : description,
+    rounds,
+  };
+}
+
+// ===== LINK PREVIEWS =====
+
+// Crawlers only wait a moment; a draw that needs a longer search previews
+// without teams instead of holding up the request
+const PREVIEW_SEARCH_STEPS = 2000;
+
+// Links larger than this preview without teams, checked before drawing; a
+// week of meals fits, a month doesn't
+const PREVIEW_LIMITS: DrawLimits = {
+  rounds: 20,
+  pool: 100,
+  slots: 200,
+};
+
+// Previews kept per server (a crawler fetches the page and its card together)
+const MAX_CACHED_PREVIEWS = 100;
+
+const previewCache = new Map<string, ShareSummary | null>();
+
+/**
+ * Check whether a link always draws the same teams
+ * @param searchParams - Params of the result link (expanded)
+ * @returns True if a seed or contributions fix the draw; links without them
+ *   draw with the current time on every visit
+ */
+export function hasFixedSeed(searchParams: URLSearchParams): boolean {
+  return Boolean(
+    searchParams.get('seed')?.trim() || searchParams.get('contrib')?.trim(),
+  );
+}
+
+/**
+ * Summarize a shared result link for page metadata and the card image
+ * @param params - Params of the result link (plain or compact)
+ * @returns Preview text, or null for links that can't be previewed (errors,
+ *   sealed, no fixed seed, or a link beyond the preview's limits or search
+ *   budget)
+ */
+export async function getLinkSummary(
+  params: URLSearchParams,
+): Promise<ShareSummary | null> {
+  const searchParams = await expandParams(params);
+  if ('error' in searchParams || !hasFixedSeed(searchParams)) return null;
+
+  const key = searchParams.toString();
+  if (previewCache.has(key)) {
+    // Move the hit to the back so the oldest preview is dropped first
+    const summary = previewCache.get(key)!;
+    previewCache.delete(key);
+    previewCache.set(key, summary);
+    return summary;
+  }
+
+  const summary = getShareSummary(
+    drawFromParams(searchParams, {
+      searchSteps: PREVIEW_SEARCH_STEPS,
+      limits: PREVIEW_LIMITS,
+    }),
+  );
+  previewCache.set(key, summary);
+  if (previewCache.size > MAX_CACHED_PREVIEWS) {
+    previewCache.delete(previewCache.keys().next().value!);
+  }
+  return summary;
+}
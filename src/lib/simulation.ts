@@ -0,0 +1,94 @@
+/**
+ * 식당청소 뺑뺑이 (Dining Hall Cleaning Duty Team Randomizer)
+ * Monte Carlo summaries of many draws with the same settings
+ */
+
+// ===== TYPES =====
+
+/**
+ * Tally of draws run with different seeds
+ */
+export interface SimulationSummary {
+  runs: number; // Draws attempted
+  failures: number; // Draws that returned an error
+  errors: Record<string, number>; // Error messages and how often they occurred
+  appearanceCounts: Record<string, number[]>; // Draws with N appearances, by person
+  roundCounts: Record<string, number[]>; // Draws with the person on each round
+}
+
+// ===== SUMMARY =====
+
+/**
+ * Create an empty summary for a configuration
+ * @param pool - List of participant names
+ * @returns Summary with zero runs (rounds are added by the first draw that
+ *   succeeds)
+ */
+export function createSimulationSummary(pool: string[]): SimulationSummary {
+  const appearanceCounts: Record<string, number[]> = {};
+  const roundCounts: Record<string, number[]> = {};
+  pool.forEach((person) => {
+    appearanceCounts[person] = [];
+    roundCounts[person] = [];
+  });
+
+  return { runs: 0, failures: 0, errors: {}, appearanceCounts, roundCounts };
+}
+
+/**
+ * Add the outcome of one draw to a summary (the summary is updated in place)
+ * @param summary - Summary to update
+ * @param result - Teams of the draw, or its error message
+ */
+export function addSimulationRun(
+  summary: SimulationSummary,
+  result: { teams: string[][] } | { error: string },
+): void {
+  summary.runs++;
+
+  if ('error' in result) {
+    summary.failures++;
+    summary.errors[result.error] = (summary.errors[result.error] || 0) + 1;
+    return;
+  }
+
+  Object.values(summary.roundCounts).forEach((counts) => {
+    while (counts.length < result.teams.length) counts.push(0);
+  });
+
+  const appearances: Record<string, number> = {};
+  result.teams.forEach((team, round) => {
+    team.forEach((person) => {
+      appearances[person] = (appearances[person] || 0) + 1;
+      if (summary.roundCounts[person]) {
+        summary.roundCounts[person][round]++;
+      }
+    });
+  });
+
+  Object.entries(summary.appearanceCounts).forEach(([person, counts]) => {
+    const count = appearances[person] || 0;
+    while (counts.length <= count) counts.push(0);
+    counts[count]++;
+  });
+}
+
+/**
+ * Average appearances of a person over successful draws
+ * @param summary - Summary of the draws
+ * @param person - Participant name
+ * @returns Mean appearances (0 when every draw failed)
+ */
+export function getMeanAppearances(
+  summary: SimulationSummary,
+  person: string,
+): number {
+  const successes = summary.runs - summary.failures;
+  if (successes === 0) return 0;
+
+  const total = (summary.appearanceCounts[person] || []).reduce(
+    (sum, draws, count) => sum + draws * count,
+    0,
+  );
+  return total / successes;
+}
@@ -0,0 +1,135 @@
+/**
+ * 식당청소 뺑뺑이 (Dining Hall Cleaning Duty Team Randomizer)
+ * Posting results to chat rooms through incoming webhooks
+ */
+import { type DrawResult } from './draw';
+import { getShareSummary } from './share';
+
+// ===== MESSAGES =====
+
+/**
+ * Message posted when no template is set. Placeholders: `{title}` (dates),
+ * `{teams}` (a line per meal), `{link}` (result page) and `{seed}`
+ */
+export const DEFAULT_WEBHOOK_TEMPLATE = '{title}\n{teams}\n\n{link}';
+
+const WEBHOOK_PLACEHOLDERS = ['title', 'teams', 'link', 'seed'];
+
+// Room for a short greeting around the placeholders, not for free-form posts
+const MAX_TEMPLATE_LENGTH = 300;
+
+/**
+ * Check a message template sent from the result page
+ * @param template - Message with placeholders
+ * @returns Error message, or null if the template only adds a short text
+ *   around the teams
+ */
+export function validateWebhookTemplate(template: string): string | null {
+  if (template.length > MAX_TEMPLATE_LENGTH) {
+    return `채팅방 메시지는 ${MAX_TEMPLATE_LENGTH}자까지 쓸 수 있습니다.`;
+  }
+
+  const placeholders = Array.from(
+    template.matchAll(/\{([^{}]*)\}/g),
+    ([, name]) => name,
+  );
+  const unknown = placeholders.filter(
+    (name) => !WEBHOOK_PLACEHOLDERS.includes(name),
+  );
+  if (unknown.length > 0) {
+    return `알 수 없는 자리표시자입니다: ${unknown.map((name) => `{${name}}`).join(', ')}`;
+  }
+
+  if (!placeholders.includes('teams')) {
+    return '채팅방 메시지에는 {teams}가 있어야 합니다.';
+  }
+
+  return null;
+}
+
+/**
+ * Fill a message template with a drawn result
+ * @param template - Message with placeholders (unknown ones are kept as is)
+ * @param result - Drawn result link
+ * @param link - Address of the result page
+ * @returns Message text, or null for links without teams (errors, sealed)
+ */
+export function formatWebhookMessage(
+  template: string,
+  result: DrawResult,
+  link: string,
+): string | null {
+  const summary = getShareSummary(result);
+  if (!summary) return null;
+
+  const values: Record<string, string> = {
+    title: summary.title,
+    teams: summary.rounds
+      .map(({ title, members }) => `${title}: ${members.join(', ')}`)
+      .join('\n'),
+    link,
+    seed: result.seedText,
+  };
+
+  return template.replace(
+    /\{(\w+)\}/g,
+    (placeholder, name: string) => values[name] ?? placeholder,
+  );
+}
+
+// ===== DELIVERY =====
+
+// Discord rejects longer messages (Slack and Mattermost allow far more)
+const MAX_DISCORD_LENGTH = 2000;
+
+// Give up on webhooks that don't answer
+const WEBHOOK_TIMEOUT_MS = 10000;
+
+/**
+ * Create a webhook body that Slack, Mattermost and Discord all accept
+ * @param text - Message text
+ * @returns `text` for Slack and Mattermost, `content` for Discord
+ */
+export function createWebhookPayload(text: string): {
+  text: string;
+  content: string;
+} {
+  return {
+    text,
+    content:
+      text.length > MAX_DISCORD_LENGTH
+        ? `${text.slice(0, MAX_DISCORD_LENGTH - 1)}…`
+        : text,
+  };
+}
+
+/**
+ * Post a message to an incoming webhook
+ * @param url - Webhook address
+ * @param text - Message text
+ * @returns Success, or error message when the webhook can't be reached or
+ *   refuses the message
+ */
+export async function sendWebhook(
+  url: string,
+  text: string,
+): Promise<{ ok: true } | { error: string }> {
+  try {
+    const response = await fetch(url, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(createWebhookPayload(text)),
+      signal: AbortSignal.timeout(WEBHOOK_TIMEOUT_MS),
+    });
+
+    if (!response.ok) {
+      return {
+        error: `웹훅이 메시지를 거부했습니다 (HTTP ${response.status}).`,
+      };
+    }
+    return { ok: true };
+  } catch (error) {
+    console.error('Failed to send webhook:', error);
+    return { error: '웹훅에 연결할 수 없습니다.' };
+  }
+}